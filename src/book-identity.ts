@@ -0,0 +1,309 @@
+// Canonical identity for books and authors: ISBN validation, title/author normalization and fuzzy de-duplication
+
+import { similarity } from "./matching";
+
+// Identifying fields shared by every book entry
+export interface BookIdentity {
+  title: string;
+  author: string;
+  isbn?: string;
+  workId?: string;
+}
+
+// Normalized titles and authors at least this similar are treated as typos of each other
+const FUZZY_THRESHOLD = 0.9;
+
+const LEADING_ARTICLE = /^(the|a|an)\s+/;
+const TRAILING_ARTICLE = /,\s*(the|a|an)$/i;
+// "(The Lord of the Rings, #1)", "(Discworld #12)", "[Book 3]"
+const SERIES_SUFFIX = /\s*[([][^)\]]*(#\s*\d+(\.\d+)?|book\s+\d+|vol(ume)?\.?\s*\d+)[^)\]]*[)\]]\s*$/i;
+
+function stripDiacritics(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function simplify(text: string): string {
+  return stripDiacritics(text)
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Validates an ISBN-10 or ISBN-13 and returns it as a bare ISBN-13.
+ * @param input - The ISBN, with or without hyphens and spaces.
+ * @returns The ISBN-13, or null if the input isn't a valid ISBN.
+ */
+export function normalizeIsbn(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, "").toUpperCase();
+
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    const sum = [...digits].reduce((total, char, i) => total + (char === "X" ? 10 : Number(char)) * (10 - i), 0);
+    if (sum % 11 !== 0) return null;
+    const base = `978${digits.slice(0, 9)}`;
+    return base + isbn13CheckDigit(base);
+  }
+
+  if (/^\d{13}$/.test(digits)) {
+    return isbn13CheckDigit(digits.slice(0, 12)) === digits[12] ? digits : null;
+  }
+
+  return null;
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce((total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Splits a title into a comparable main title and subtitle.
+ * Handles "Hobbit, The", leading articles, series suffixes like "(Discworld #1)" and "Title: Subtitle".
+ */
+export function normalizeTitle(title: string): { main: string; subtitle: string } {
+  const text = title.trim().replace(SERIES_SUFFIX, "");
+  const [mainPart, ...rest] = text.split(/\s*[:—]\s*|\s+-\s+/);
+  const main = simplify(mainPart.replace(TRAILING_ARTICLE, "")).replace(LEADING_ARTICLE, "");
+  return { main, subtitle: simplify(rest.join(" ")) };
+}
+
+/**
+ * Normalizes an author's name for comparison.
+ * "Tolkien, J.R.R.", "J. R. R. Tolkien" and "JRR Tolkien" all become "jrr tolkien".
+ */
+export function normalizeAuthor(name: string): string {
+  return parseAuthor(name).key;
+}
+
+interface ParsedAuthor {
+  key: string;
+  surname: string;
+  initials: string;
+  writtenAsInitials: boolean;
+}
+
+interface ParsedTitle {
+  main: string;
+  subtitle: string;
+  numbers: string;
+}
+
+function parseAuthor(name: string): ParsedAuthor {
+  let text = name.trim();
+  // "Last, First" → "First Last"
+  const comma = text.match(/^([^,]+),\s*([^,]+)$/);
+  if (comma) text = `${comma[2]} ${comma[1]}`;
+
+  const tokens = stripDiacritics(text).replace(/\./g, ". ").split(/\s+/).filter(Boolean);
+  const surname = simplify(tokens[tokens.length - 1] || "");
+  const given = tokens.slice(0, -1);
+
+  // "J." or "R" are initials; so are short all-caps runs like "JRR"
+  const isInitialToken = (token: string) => /^[A-Za-z]\.?$/.test(token) || /^[A-Z]{2,3}$/.test(token);
+  const writtenAsInitials = given.length > 0 && given.every(isInitialToken);
+  const initials = given.map(token => (isInitialToken(token) ? token.replace(/\./g, "") : token[0])).join("").toLowerCase();
+
+  const givenKey = writtenAsInitials ? initials : simplify(given.join(" "));
+  return { key: [givenKey, surname].filter(Boolean).join(" "), surname, initials, writtenAsInitials };
+}
+
+/**
+ * Whether two author names refer to the same person.
+ * Matches on normalized names, on initials against full given names ("J.R.R." vs "John Ronald Reuel"),
+ * and on near-identical spellings.
+ */
+export function isSameAuthor(a: string, b: string): boolean {
+  return sameAuthor(parseAuthor(a), parseAuthor(b));
+}
+
+function sameAuthor(left: ParsedAuthor, right: ParsedAuthor): boolean {
+  if (left.key === right.key) return true;
+  if (left.surname && left.surname === right.surname && (left.writtenAsInitials || right.writtenAsInitials)) {
+    return left.initials === right.initials;
+  }
+  return left.key.length > 5 && similarity(left.key, right.key) >= FUZZY_THRESHOLD;
+}
+
+const ROMAN_NUMERAL = /^m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+// The numbers in a simplified title, with Roman numerals converted, so "saga vol ii" gives ["2"]
+function titleNumbers(text: string): string[] {
+  return text.split(" ").flatMap(token => {
+    if (/^\d+$/.test(token)) return [String(Number(token))];
+    if (!token || !ROMAN_NUMERAL.test(token)) return [];
+    let value = 0;
+    for (let i = 0; i < token.length; i++) {
+      const current = ROMAN_VALUES[token[i]];
+      value += current < (ROMAN_VALUES[token[i + 1]] ?? 0) ? -current : current;
+    }
+    return [String(value)];
+  });
+}
+
+/**
+ * Whether two titles name the same work. A title without a subtitle matches the same title with one,
+ * but two different subtitles ("Star Wars: A New Hope" vs "Star Wars: The Empire Strikes Back") don't match.
+ * Near-identical titles only match when their numbers agree, so "Saga, Vol. 1" and "Saga, Vol. 2" stay apart.
+ */
+export function isSameTitle(a: string, b: string): boolean {
+  return sameTitle(parseTitle(a), parseTitle(b));
+}
+
+function parseTitle(title: string): ParsedTitle {
+  const { main, subtitle } = normalizeTitle(title);
+  return { main, subtitle, numbers: titleNumbers(main).join(" ") };
+}
+
+function sameTitle(left: ParsedTitle, right: ParsedTitle): boolean {
+  const sameMain =
+    left.main === right.main ||
+    (left.main.length > 7 && left.numbers === right.numbers && similarity(left.main, right.main) >= FUZZY_THRESHOLD);
+  if (!sameMain) return false;
+  return !left.subtitle || !right.subtitle || left.subtitle === right.subtitle;
+}
+
+/**
+ * Whether two book entries are the same work: matching work IDs or ISBNs, or titles and authors that
+ * match after normalization. Different ISBNs never rule a match out, since each edition of a work
+ * (hardback, paperback, ebook) has its own.
+ */
+export function isSameBook(a: BookIdentity, b: BookIdentity): boolean {
+  if (a.workId && b.workId && a.workId === b.workId) return true;
+  if (a.isbn && b.isbn && a.isbn === b.isbn) return true;
+  return isSameTitle(a.title, b.title) && isSameAuthor(a.author, b.author);
+}
+
+interface IndexedBook<T> {
+  value: T;
+  order: number;
+  workId?: string;
+  isbn?: string;
+  title: ParsedTitle;
+  author: ParsedAuthor;
+}
+
+/**
+ * Books indexed for matching, so finding a book's matches doesn't mean comparing it against every entry.
+ * Titles and authors are normalized once, when a book is added. Only books sharing a work ID, ISBN,
+ * main title or author surname are compared, which finds every match isSameBook would except a
+ * misspelled title by a misspelled author.
+ */
+export class BookIndex<T> {
+  private buckets = new Map<string, Set<IndexedBook<T>>>();
+  private entries = new Map<T, IndexedBook<T>>();
+  private added = 0;
+
+  constructor(books: Array<[BookIdentity, T]> = []) {
+    for (const [book, value] of books) this.add(book, value);
+  }
+
+  private keys(entry: Pick<IndexedBook<T>, "workId" | "isbn" | "title" | "author">): string[] {
+    const keys = [`title:${entry.title.main}`, `surname:${entry.author.surname}`];
+    if (entry.workId) keys.push(`work:${entry.workId}`);
+    if (entry.isbn) keys.push(`isbn:${entry.isbn}`);
+    return keys;
+  }
+
+  // Adding a value that's already indexed re-indexes it under the book's current fields, keeping its place
+  add(book: BookIdentity, value: T) {
+    const order = this.entries.get(value)?.order ?? this.added++;
+    this.remove(value);
+    const entry = { value, order, workId: book.workId, isbn: book.isbn, title: parseTitle(book.title), author: parseAuthor(book.author) };
+    this.entries.set(value, entry);
+    for (const key of this.keys(entry)) {
+      const bucket = this.buckets.get(key) ?? new Set();
+      bucket.add(entry);
+      this.buckets.set(key, bucket);
+    }
+  }
+
+  remove(value: T) {
+    const entry = this.entries.get(value);
+    if (!entry) return;
+    this.entries.delete(value);
+    for (const key of this.keys(entry)) this.buckets.get(key)?.delete(entry);
+  }
+
+  /**
+   * @returns The values of every indexed book that's the same work as the book, in the order they were added.
+   */
+  find(book: BookIdentity): T[] {
+    const target = { workId: book.workId, isbn: book.isbn, title: parseTitle(book.title), author: parseAuthor(book.author) };
+    const candidates = new Set<IndexedBook<T>>();
+    for (const key of this.keys(target)) {
+      for (const entry of this.buckets.get(key) ?? []) candidates.add(entry);
+    }
+    return [...candidates]
+      .filter(
+        entry =>
+          (target.workId && entry.workId === target.workId) ||
+          (target.isbn && entry.isbn === target.isbn) ||
+          (sameTitle(entry.title, target.title) && sameAuthor(entry.author, target.author))
+      )
+      .sort((a, b) => a.order - b.order)
+      .map(entry => entry.value);
+  }
+
+  /**
+   * @returns The values of the indexed books whose main title is the same as this one's after normalization,
+   * whoever wrote them.
+   */
+  findByTitle(title: string): T[] {
+    return [...(this.buckets.get(`title:${normalizeTitle(title).main}`) ?? [])].sort((a, b) => a.order - b.order).map(entry => entry.value);
+  }
+}
+
+export function createWorkId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Collapses duplicate books in a list into the earliest entry, filling in any details
+ * (rating, review, ISBN, ...) that only the later duplicates had.
+ * @returns The de-duplicated list and the duplicates that were merged away.
+ */
+export function mergeDuplicateBooks<T extends BookIdentity>(books: T[]): { books: T[]; merged: Array<{ kept: T; duplicate: T }> } {
+  const result: T[] = [];
+  const merged: Array<{ kept: T; duplicate: T }> = [];
+  const index = new BookIndex<T>();
+
+  for (const book of books) {
+    const [existing] = index.find(book);
+    if (!existing) {
+      const kept = { ...book };
+      result.push(kept);
+      index.add(kept, kept);
+      continue;
+    }
+    for (const [field, value] of Object.entries(book)) {
+      const current = (existing as Record<string, unknown>)[field];
+      if (current === undefined || current === null || current === "") {
+        (existing as Record<string, unknown>)[field] = value;
+      }
+    }
+    index.add(existing, existing);
+    merged.push({ kept: existing, duplicate: book });
+  }
+
+  return { books: result, merged };
+}
+
+/**
+ * Collapses author-name variants in a list into the first spelling seen.
+ * @returns The de-duplicated list and the variants that were merged away.
+ */
+export function mergeDuplicateAuthors(authors: string[]): { authors: string[]; merged: Array<{ kept: string; duplicate: string }> } {
+  const result: string[] = [];
+  const merged: Array<{ kept: string; duplicate: string }> = [];
+
+  for (const author of authors) {
+    const existing = result.find(candidate => isSameAuthor(candidate, author));
+    if (existing) merged.push({ kept: existing, duplicate: author });
+    else result.push(author);
+  }
+
+  return { authors: result, merged };
+}
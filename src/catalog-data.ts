@@ -0,0 +1,116 @@
+// The seed catalog: well-known books across the genre taxonomy, so recommendations can start from real titles.
+// Years are first publication; page counts are typical for a current paperback edition.
+
+import type { CatalogBook } from "./catalog";
+
+export const CATALOG_BOOKS: CatalogBook[] = [
+  // Fantasy
+  { id: "the-hobbit", title: "The Hobbit", author: "J.R.R. Tolkien", year: 1937, pages: 310, genres: ["fantasy", "classics"], description: "A comfort-loving hobbit is swept into a company of dwarves on a quest to win back their mountain home from a dragon." },
+  { id: "the-fellowship-of-the-ring", title: "The Fellowship of the Ring", author: "J.R.R. Tolkien", year: 1954, pages: 423, series: "The Lord of the Rings", seriesPosition: 1, genres: ["epic fantasy", "classics"], description: "Frodo inherits a ring of terrible power and sets out with eight companions to destroy it before its maker can reclaim it." },
+  { id: "a-wizard-of-earthsea", title: "A Wizard of Earthsea", author: "Ursula K. Le Guin", year: 1968, pages: 183, series: "Earthsea", seriesPosition: 1, genres: ["fantasy"], description: "A proud young mage unleashes a shadow on the world and must hunt it across an archipelago of islands." },
+  { id: "the-name-of-the-wind", title: "The Name of the Wind", author: "Patrick Rothfuss", year: 2007, pages: 662, series: "The Kingkiller Chronicle", seriesPosition: 1, genres: ["epic fantasy"], description: "A legendary musician and magician tells the story of his orphaned youth, his years at a university of magic and his search for the beings who killed his family." },
+  { id: "mistborn-the-final-empire", title: "Mistborn: The Final Empire", author: "Brandon Sanderson", year: 2006, pages: 541, series: "Mistborn", seriesPosition: 1, genres: ["epic fantasy"], description: "A street thief joins a crew of con artists planning to overthrow an immortal emperor, using magic fuelled by swallowed metals." },
+  { id: "the-way-of-kings", title: "The Way of Kings", author: "Brandon Sanderson", year: 2010, pages: 1007, series: "The Stormlight Archive", seriesPosition: 1, genres: ["epic fantasy"], description: "On a storm-battered world, a slave soldier, a scholar and a highprince are drawn into the return of an ancient order of knights." },
+  { id: "a-game-of-thrones", title: "A Game of Thrones", author: "George R.R. Martin", year: 1996, pages: 694, series: "A Song of Ice and Fire", seriesPosition: 1, genres: ["epic fantasy"], description: "Noble houses scheme and go to war over the Iron Throne while an ancient threat gathers beyond the Wall." },
+  { id: "the-blade-itself", title: "The Blade Itself", author: "Joe Abercrombie", year: 2006, pages: 515, series: "The First Law", seriesPosition: 1, genres: ["grimdark"], description: "A barbarian, a torturer and a vain officer are pulled into a wizard's schemes in a brutal, darkly funny world." },
+  { id: "the-lies-of-locke-lamora", title: "The Lies of Locke Lamora", author: "Scott Lynch", year: 2006, pages: 499, series: "Gentleman Bastard", seriesPosition: 1, genres: ["fantasy"], description: "A gang of gentleman thieves runs elaborate cons on the nobility of a Venice-like city until a mysterious killer targets the underworld." },
+  { id: "jonathan-strange-and-mr-norrell", title: "Jonathan Strange & Mr Norrell", author: "Susanna Clarke", year: 2004, pages: 782, genres: ["fantasy", "historical fiction"], description: "Two rival magicians bring English magic back to life during the Napoleonic Wars, with footnotes and faerie trouble." },
+  { id: "piranesi", title: "Piranesi", author: "Susanna Clarke", year: 2020, pages: 245, genres: ["fantasy"], description: "A gentle man lives alone in an endless house of statues and tides, until clues suggest the world is not what he believes." },
+  { id: "the-night-circus", title: "The Night Circus", author: "Erin Morgenstern", year: 2011, pages: 387, genres: ["fantasy"], description: "Two young magicians are bound to a duel staged inside a black-and-white circus that opens only at night." },
+  { id: "legends-and-lattes", title: "Legends & Lattes", author: "Travis Baldree", year: 2022, pages: 296, series: "Legends & Lattes", seriesPosition: 1, genres: ["cozy fantasy"], description: "A retiring orc mercenary opens the first coffee shop in a fantasy city and builds a found family." },
+  { id: "the-house-in-the-cerulean-sea", title: "The House in the Cerulean Sea", author: "TJ Klune", year: 2020, pages: 394, genres: ["cozy fantasy"], description: "A by-the-book caseworker is sent to inspect an island orphanage for magical children and finds a home." },
+  { id: "guards-guards", title: "Guards! Guards!", author: "Terry Pratchett", year: 1989, pages: 288, series: "Discworld", seriesPosition: 8, genres: ["fantasy"], description: "The hapless Night Watch of Ankh-Morpork must stop a secret society that has summoned a dragon, in a comic Discworld novel." },
+  { id: "american-gods", title: "American Gods", author: "Neil Gaiman", year: 2001, pages: 465, genres: ["fantasy"], description: "A just-released convict becomes the bodyguard of a con man who is really an old god gathering allies for a war against new ones." },
+  { id: "neverwhere", title: "Neverwhere", author: "Neil Gaiman", year: 1996, pages: 370, genres: ["urban fantasy"], description: "A London office worker helps an injured girl and falls through the cracks into London Below, a hidden city of the forgotten." },
+  { id: "uprooted", title: "Uprooted", author: "Naomi Novik", year: 2015, pages: 435, genres: ["fairy tale retellings"], description: "A village girl taken by a cold wizard discovers her own wild magic and faces the corrupted Wood at the valley's edge." },
+  { id: "circe", title: "Circe", author: "Madeline Miller", year: 2018, pages: 393, genres: ["fantasy", "fairy tale retellings"], description: "The witch of Greek myth tells her own story of exile, transformation and encounters with gods and heroes." },
+  { id: "the-fifth-season", title: "The Fifth Season", author: "N.K. Jemisin", year: 2015, pages: 468, series: "The Broken Earth", seriesPosition: 1, genres: ["fantasy"], description: "On a continent wracked by apocalyptic quakes, a mother with the power to move earth searches for her stolen daughter." },
+  { id: "a-court-of-thorns-and-roses", title: "A Court of Thorns and Roses", author: "Sarah J. Maas", year: 2015, pages: 419, series: "A Court of Thorns and Roses", seriesPosition: 1, genres: ["romantasy"], description: "A huntress who kills a wolf is taken to the faerie lands as penance and falls for her captor." },
+  { id: "fourth-wing", title: "Fourth Wing", author: "Rebecca Yarros", year: 2023, pages: 498, series: "The Empyrean", seriesPosition: 1, genres: ["romantasy"], description: "A frail scholar is forced into a deadly war college where cadets bond with dragons or die trying." },
+
+  // Science fiction
+  { id: "dune", title: "Dune", author: "Frank Herbert", year: 1965, pages: 412, series: "Dune", seriesPosition: 1, genres: ["science fiction", "classics"], description: "The heir of a noble house is betrayed on the desert planet that produces the universe's most precious substance and rises among its people." },
+  { id: "foundation", title: "Foundation", author: "Isaac Asimov", year: 1951, pages: 255, series: "Foundation", seriesPosition: 1, genres: ["science fiction", "classics"], description: "A mathematician who can predict the fall of a galactic empire sets up a foundation to shorten the dark age that follows." },
+  { id: "the-left-hand-of-darkness", title: "The Left Hand of Darkness", author: "Ursula K. Le Guin", year: 1969, pages: 304, genres: ["science fiction"], description: "An envoy to an icebound world whose people have no fixed sex struggles to understand its politics and one exiled ally." },
+  { id: "the-hitchhikers-guide-to-the-galaxy", title: "The Hitchhiker's Guide to the Galaxy", author: "Douglas Adams", year: 1979, pages: 193, series: "The Hitchhiker's Guide to the Galaxy", seriesPosition: 1, genres: ["science fiction"], description: "Seconds before Earth is demolished, an ordinary Englishman is rescued by an alien friend and set loose on an absurd cosmic road trip." },
+  { id: "neuromancer", title: "Neuromancer", author: "William Gibson", year: 1984, pages: 271, genres: ["cyberpunk"], description: "A washed-up hacker is hired for one last run against an artificial intelligence in a neon-lit future." },
+  { id: "snow-crash", title: "Snow Crash", author: "Neal Stephenson", year: 1992, pages: 440, genres: ["cyberpunk"], description: "A pizza-delivering hacker uncovers a virus that infects both computers and human minds in a corporatised America." },
+  { id: "hyperion", title: "Hyperion", author: "Dan Simmons", year: 1989, pages: 482, series: "Hyperion Cantos", seriesPosition: 1, genres: ["space opera"], description: "Seven pilgrims travelling to meet a deadly creature on a distant world each tell the story that brought them there." },
+  { id: "leviathan-wakes", title: "Leviathan Wakes", author: "James S.A. Corey", year: 2011, pages: 561, series: "The Expanse", seriesPosition: 1, genres: ["space opera"], description: "An ice-hauler officer and a worn-out detective uncover a conspiracy that could start a war across the colonised solar system." },
+  { id: "the-long-way-to-a-small-angry-planet", title: "The Long Way to a Small, Angry Planet", author: "Becky Chambers", year: 2014, pages: 404, series: "Wayfarers", seriesPosition: 1, genres: ["space opera"], description: "The multispecies crew of a tunnelling ship takes a long, risky job and becomes a family along the way." },
+  { id: "ancillary-justice", title: "Ancillary Justice", author: "Ann Leckie", year: 2013, pages: 386, series: "Imperial Radch", seriesPosition: 1, genres: ["space opera"], description: "The last fragment of a warship's artificial mind, trapped in a human body, seeks revenge on the ruler of an empire." },
+  { id: "the-three-body-problem", title: "The Three-Body Problem", author: "Cixin Liu", year: 2008, pages: 400, series: "Remembrance of Earth's Past", seriesPosition: 1, genres: ["hard science fiction"], description: "A secret project from China's Cultural Revolution makes contact with an alien civilisation facing its own chaotic sun." },
+  { id: "project-hail-mary", title: "Project Hail Mary", author: "Andy Weir", year: 2021, pages: 476, genres: ["hard science fiction"], description: "A schoolteacher wakes alone on a spaceship with no memory and must work out how to save Earth from a dimming sun." },
+  { id: "the-martian", title: "The Martian", author: "Andy Weir", year: 2011, pages: 369, genres: ["hard science fiction"], description: "An astronaut stranded on Mars uses botany, engineering and gallows humour to survive until rescue." },
+  { id: "enders-game", title: "Ender's Game", author: "Orson Scott Card", year: 1985, pages: 324, series: "Ender's Saga", seriesPosition: 1, genres: ["military science fiction"], description: "A gifted child is trained through battle games at an orbital school to lead humanity's war against an alien species." },
+  { id: "old-mans-war", title: "Old Man's War", author: "John Scalzi", year: 2005, pages: 313, series: "Old Man's War", seriesPosition: 1, genres: ["military science fiction"], description: "A 75-year-old joins the colonial army, gets a young new body and discovers how hostile the galaxy is." },
+  { id: "the-forever-war", title: "The Forever War", author: "Joe Haldeman", year: 1974, pages: 236, genres: ["military science fiction"], description: "A soldier fighting an interstellar war returns home between battles to find centuries have passed because of time dilation." },
+  { id: "a-wrinkle-in-time", title: "A Wrinkle in Time", author: "Madeleine L'Engle", year: 1962, pages: 232, series: "Time Quintet", seriesPosition: 1, genres: ["middle grade", "science fiction"], description: "A girl, her brother and a friend travel across space through a tesseract to rescue her scientist father." },
+
+  // Dystopian and post-apocalyptic
+  { id: "nineteen-eighty-four", title: "Nineteen Eighty-Four", author: "George Orwell", year: 1949, pages: 328, genres: ["dystopian", "classics"], description: "A party functionary in a surveillance state begins a forbidden love affair and a quiet rebellion against Big Brother." },
+  { id: "brave-new-world", title: "Brave New World", author: "Aldous Huxley", year: 1932, pages: 268, genres: ["dystopian", "classics"], description: "In a future of engineered castes and engineered happiness, an outsider raised on a reservation rejects a world without pain." },
+  { id: "the-handmaids-tale", title: "The Handmaid's Tale", author: "Margaret Atwood", year: 1985, pages: 311, genres: ["dystopian"], description: "In a theocracy that has stripped women of their rights, a handmaid assigned to bear children for the elite remembers her former life." },
+  { id: "the-hunger-games", title: "The Hunger Games", author: "Suzanne Collins", year: 2008, pages: 374, series: "The Hunger Games", seriesPosition: 1, genres: ["young adult", "dystopian"], description: "A teenager volunteers in her sister's place for a televised fight to the death staged by a tyrannical capital." },
+  { id: "station-eleven", title: "Station Eleven", author: "Emily St. John Mandel", year: 2014, pages: 333, genres: ["post-apocalyptic", "literary fiction"], description: "Twenty years after a pandemic, a travelling troupe performs Shakespeare in the ruins, linked to one actor's death on the night it began." },
+  { id: "the-road", title: "The Road", author: "Cormac McCarthy", year: 2006, pages: 287, genres: ["post-apocalyptic", "literary fiction"], description: "A father and his young son walk south through a burned and dying America, carrying the fire." },
+  { id: "never-let-me-go", title: "Never Let Me Go", author: "Kazuo Ishiguro", year: 2005, pages: 288, genres: ["literary fiction", "science fiction"], description: "Former students of an idyllic English boarding school slowly come to terms with the purpose they were raised for." },
+
+  // Literary fiction and classics
+  { id: "the-remains-of-the-day", title: "The Remains of the Day", author: "Kazuo Ishiguro", year: 1989, pages: 245, genres: ["literary fiction"], description: "An ageing English butler takes a motoring trip and reflects on decades of loyal service and a love he never spoke of." },
+  { id: "one-hundred-years-of-solitude", title: "One Hundred Years of Solitude", author: "Gabriel García Márquez", year: 1967, pages: 417, genres: ["magical realism", "classics"], description: "Seven generations of the Buendía family rise and fall in the mythical town of Macondo." },
+  { id: "beloved", title: "Beloved", author: "Toni Morrison", year: 1987, pages: 324, genres: ["literary fiction", "historical fiction"], description: "A woman who escaped slavery is haunted by the ghost of her daughter in post-Civil War Ohio." },
+  { id: "the-secret-history", title: "The Secret History", author: "Donna Tartt", year: 1992, pages: 559, genres: ["literary fiction"], description: "A scholarship student falls in with an elite circle of classics students at a Vermont college, and into murder." },
+  { id: "pride-and-prejudice", title: "Pride and Prejudice", author: "Jane Austen", year: 1813, pages: 279, genres: ["classics", "romance"], description: "Sharp-witted Elizabeth Bennet and the proud Mr Darcy misjudge each other amid Regency marriage politics." },
+  { id: "jane-eyre", title: "Jane Eyre", author: "Charlotte Brontë", year: 1847, pages: 507, genres: ["classics", "gothic"], description: "An orphaned governess falls for her brooding employer at Thornfield Hall, which hides a terrible secret." },
+  { id: "frankenstein", title: "Frankenstein", author: "Mary Shelley", year: 1818, pages: 280, genres: ["gothic", "classics"], description: "A young scientist creates life and abandons his creation, which turns on him in grief and rage." },
+
+  // Horror and gothic
+  { id: "rebecca", title: "Rebecca", author: "Daphne du Maurier", year: 1938, pages: 410, genres: ["gothic"], description: "A young bride arrives at her husband's Cornish estate to find it dominated by the memory of his first wife." },
+  { id: "dracula", title: "Dracula", author: "Bram Stoker", year: 1897, pages: 418, genres: ["gothic", "horror"], description: "Told in letters and diaries, a band of friends hunts the Transylvanian count who has come to England." },
+  { id: "mexican-gothic", title: "Mexican Gothic", author: "Silvia Moreno-Garcia", year: 2020, pages: 301, genres: ["gothic"], description: "A glamorous socialite visits her cousin's crumbling mansion in 1950s Mexico and uncovers the family's nightmarish secrets." },
+  { id: "the-haunting-of-hill-house", title: "The Haunting of Hill House", author: "Shirley Jackson", year: 1959, pages: 246, genres: ["supernatural horror"], description: "Four people spend a summer in a notoriously haunted house, and one of them begins to belong to it." },
+  { id: "the-shining", title: "The Shining", author: "Stephen King", year: 1977, pages: 447, genres: ["supernatural horror"], description: "A struggling writer becomes winter caretaker of an isolated hotel whose malevolent presence preys on his family." },
+  { id: "it", title: "It", author: "Stephen King", year: 1986, pages: 1138, genres: ["supernatural horror"], description: "Seven friends who fought a shape-shifting evil as children return to their Maine hometown when it resurfaces." },
+
+  // Mystery and thriller
+  { id: "the-hound-of-the-baskervilles", title: "The Hound of the Baskervilles", author: "Arthur Conan Doyle", year: 1902, pages: 256, genres: ["detective fiction", "classics"], description: "Sherlock Holmes investigates a family curse and a spectral hound on the Devon moors." },
+  { id: "the-murder-of-roger-ackroyd", title: "The Murder of Roger Ackroyd", author: "Agatha Christie", year: 1926, pages: 312, series: "Hercule Poirot", seriesPosition: 4, genres: ["detective fiction"], description: "Hercule Poirot comes out of retirement to solve a village murder, in a mystery famous for its twist." },
+  { id: "and-then-there-were-none", title: "And Then There Were None", author: "Agatha Christie", year: 1939, pages: 272, genres: ["mystery"], description: "Ten strangers lured to an island are killed one by one according to a nursery rhyme." },
+  { id: "the-big-sleep", title: "The Big Sleep", author: "Raymond Chandler", year: 1939, pages: 231, series: "Philip Marlowe", seriesPosition: 1, genres: ["noir"], description: "Private eye Philip Marlowe is hired to deal with a blackmailer and wades into the Los Angeles underworld." },
+  { id: "the-thursday-murder-club", title: "The Thursday Murder Club", author: "Richard Osman", year: 2020, pages: 382, series: "Thursday Murder Club", seriesPosition: 1, genres: ["cozy mystery"], description: "Four friends in a retirement village who meet to discuss cold cases find a real murder on their doorstep." },
+  { id: "in-the-woods", title: "In the Woods", author: "Tana French", year: 2007, pages: 429, series: "Dublin Murder Squad", seriesPosition: 1, genres: ["police procedural"], description: "A Dublin detective investigates a girl's murder in the same woods where his childhood friends vanished." },
+  { id: "gone-girl", title: "Gone Girl", author: "Gillian Flynn", year: 2012, pages: 419, genres: ["psychological thriller"], description: "When a woman disappears on her fifth wedding anniversary, her husband's lies make him the prime suspect." },
+  { id: "the-silent-patient", title: "The Silent Patient", author: "Alex Michaelides", year: 2019, pages: 325, genres: ["psychological thriller"], description: "A psychotherapist becomes obsessed with a painter who shot her husband and has not spoken since." },
+  { id: "the-spy-who-came-in-from-the-cold", title: "The Spy Who Came in from the Cold", author: "John le Carré", year: 1963, pages: 256, series: "George Smiley", seriesPosition: 3, genres: ["spy thriller"], description: "A burned-out British agent poses as a defector for one last operation against East German intelligence." },
+  { id: "tinker-tailor-soldier-spy", title: "Tinker Tailor Soldier Spy", author: "John le Carré", year: 1974, pages: 381, series: "George Smiley", seriesPosition: 5, genres: ["spy thriller"], description: "George Smiley is brought out of retirement to find a Soviet mole at the top of British intelligence." },
+  { id: "the-firm", title: "The Firm", author: "John Grisham", year: 1991, pages: 421, genres: ["legal thriller"], description: "A young lawyer joins a generous Memphis firm and discovers it exists to serve the Mafia." },
+  { id: "the-hunt-for-red-october", title: "The Hunt for Red October", author: "Tom Clancy", year: 1984, pages: 387, genres: ["techno-thriller"], description: "A Soviet submarine captain tries to defect with his advanced sub as both navies hunt him." },
+  { id: "the-girl-with-the-dragon-tattoo", title: "The Girl with the Dragon Tattoo", author: "Stieg Larsson", year: 2005, pages: 465, series: "Millennium", seriesPosition: 1, genres: ["thriller", "mystery"], description: "A disgraced journalist and a brilliant hacker investigate a decades-old disappearance in a wealthy Swedish family." },
+
+  // Historical fiction and romance
+  { id: "wolf-hall", title: "Wolf Hall", author: "Hilary Mantel", year: 2009, pages: 653, series: "Wolf Hall", seriesPosition: 1, genres: ["historical fiction"], description: "Thomas Cromwell, a blacksmith's son, rises to become Henry VIII's most powerful adviser." },
+  { id: "the-pillars-of-the-earth", title: "The Pillars of the Earth", author: "Ken Follett", year: 1989, pages: 973, series: "Kingsbridge", seriesPosition: 1, genres: ["historical fiction"], description: "The building of a cathedral in 12th-century England binds together a master builder, a prior and a noble family through decades of conflict." },
+  { id: "all-the-light-we-cannot-see", title: "All the Light We Cannot See", author: "Anthony Doerr", year: 2014, pages: 531, genres: ["historical fiction"], description: "A blind French girl and a German orphan with a gift for radios are drawn together in occupied Saint-Malo." },
+  { id: "the-book-thief", title: "The Book Thief", author: "Markus Zusak", year: 2005, pages: 552, genres: ["historical fiction", "young adult"], description: "Narrated by Death, a girl in Nazi Germany steals books and shares them with her neighbours and the Jewish man hidden in her basement." },
+  { id: "outlander", title: "Outlander", author: "Diana Gabaldon", year: 1991, pages: 627, series: "Outlander", seriesPosition: 1, genres: ["historical romance"], description: "A former combat nurse is swept back in time to 18th-century Scotland and falls for a Highland warrior." },
+  { id: "the-hating-game", title: "The Hating Game", author: "Sally Thorne", year: 2016, pages: 365, genres: ["romantic comedy"], description: "Two executive assistants who loathe each other compete for the same promotion, and the rivalry turns into attraction." },
+  { id: "beach-read", title: "Beach Read", author: "Emily Henry", year: 2020, pages: 361, genres: ["contemporary romance"], description: "A romance novelist and a literary writer with writer's block swap genres for a summer and fall for each other." },
+
+  // Young readers and graphic novels
+  { id: "the-golden-compass", title: "The Golden Compass", author: "Philip Pullman", year: 1995, pages: 399, series: "His Dark Materials", seriesPosition: 1, genres: ["young adult", "fantasy"], description: "A girl and her animal companion journey to the far North to rescue kidnapped children and uncover a church conspiracy." },
+  { id: "the-phantom-tollbooth", title: "The Phantom Tollbooth", author: "Norton Juster", year: 1961, pages: 256, genres: ["middle grade"], description: "A bored boy drives through a mysterious tollbooth into a land of wordplay, numbers and a quest to rescue two princesses." },
+  { id: "watchmen", title: "Watchmen", author: "Alan Moore", year: 1987, pages: 416, genres: ["graphic novels"], description: "The murder of a retired costumed hero exposes a conspiracy in an alternate 1985 on the brink of nuclear war." },
+  { id: "maus", title: "Maus I: A Survivor's Tale", author: "Art Spiegelman", year: 1986, pages: 159, genres: ["graphic novels", "memoir"], description: "The cartoonist records his father's survival of the Holocaust, drawn with Jews as mice and Nazis as cats." },
+
+  // Nonfiction
+  { id: "sapiens", title: "Sapiens: A Brief History of Humankind", author: "Yuval Noah Harari", year: 2011, pages: 443, genres: ["history", "nonfiction"], description: "A sweeping account of how Homo sapiens came to dominate the planet, from the cognitive revolution to capitalism." },
+  { id: "a-brief-history-of-time", title: "A Brief History of Time", author: "Stephen Hawking", year: 1988, pages: 212, genres: ["popular science"], description: "A physicist explains black holes, the big bang and the nature of time for general readers." },
+  { id: "the-immortal-life-of-henrietta-lacks", title: "The Immortal Life of Henrietta Lacks", author: "Rebecca Skloot", year: 2010, pages: 381, genres: ["popular science"], description: "The story of the Black woman whose cells, taken without consent, became one of medicine's most important tools." },
+  { id: "thinking-fast-and-slow", title: "Thinking, Fast and Slow", author: "Daniel Kahneman", year: 2011, pages: 499, genres: ["popular science"], description: "A psychologist describes the two systems that drive how we think, and the biases that lead us astray." },
+  { id: "in-cold-blood", title: "In Cold Blood", author: "Truman Capote", year: 1966, pages: 343, genres: ["true crime"], description: "A reconstruction of the murder of a Kansas farm family and the lives of the two men who killed them." },
+  { id: "educated", title: "Educated", author: "Tara Westover", year: 2018, pages: 334, genres: ["memoir"], description: "Raised by survivalists in Idaho without schooling, the author teaches herself enough to reach university and a PhD." },
+  { id: "steve-jobs", title: "Steve Jobs", author: "Walter Isaacson", year: 2011, pages: 656, genres: ["biography"], description: "The authorised biography of Apple's co-founder, drawn from dozens of interviews with him and those around him." },
+  { id: "atomic-habits", title: "Atomic Habits", author: "James Clear", year: 2018, pages: 320, genres: ["self-help"], description: "A practical guide to building good habits and breaking bad ones through small, compounding changes." },
+  { id: "meditations", title: "Meditations", author: "Marcus Aurelius", year: 180, pages: 254, genres: ["philosophy", "classics"], description: "The private notes of a Roman emperor on Stoic philosophy, duty and how to live well." },
+];
@@ -0,0 +1,328 @@
+// The local book catalog: seed data embedded with Workers AI, and similarity search over it for real recommendation candidates
+
+import type { BookPreferences } from "./preferences";
+import type { Recommendation, RecommendationRequest } from "./recommendations";
+import { filterRecommendations } from "./recommendations";
+import { isSameAuthor, isSameBook, isSameTitle } from "./book-identity";
+import { genreAncestors, isWithinGenre, rootGenres } from "./genres";
+import { HIGH_RATING, LOW_RATING } from "./stats";
+import { CATALOG_BOOKS } from "./catalog-data";
+import { InMemoryVectorIndex, VectorIndex, VectorizeVectorIndex } from "./vector-index";
+
+// A book in the catalog; unlike shelf entries, every field is known
+export interface CatalogBook {
+  id: string; // Slug of the title, unique within the catalog
+  title: string;
+  author: string;
+  year: number; // First publication
+  pages: number; // Typical paperback length
+  series?: string;
+  seriesPosition?: number;
+  genres: string[]; // Canonical names from the genre taxonomy
+  description: string;
+}
+
+export interface CatalogMatch {
+  book: CatalogBook;
+  score: number; // Cosine similarity to the closest query
+}
+
+// 768-dimensional embeddings; the Vectorize index must be created with the same dimensions
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+
+// The embedding model takes at most this many texts per call
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Prefixed to vector IDs. Bump it when the seed data or embedding text changes, so the index is rebuilt
+const CATALOG_VERSION = "v1";
+
+// KV key holding the catalog version the Vectorize index was last filled with
+const CATALOG_INDEX_VERSION_KEY = "catalog-index-version";
+
+// How many of the user's books to search from, and how many neighbours to fetch for each
+const MAX_QUERIES = 5;
+const MAX_MATCHES_PER_QUERY = 100;
+
+// Candidates offered to the model per pick it has to make, so it has a real choice without a huge prompt
+const CANDIDATES_PER_PICK = 3;
+const MAX_CANDIDATES = 30;
+
+const catalogById = new Map(CATALOG_BOOKS.map(book => [`${CATALOG_VERSION}:${book.id}`, book]));
+
+// Used when there's no Vectorize binding, e.g. in local development; rebuilt whenever the isolate starts
+let inMemoryIndex: InMemoryVectorIndex | undefined;
+
+// One wrapper per binding, so the indexing memo below recognises the index on every request
+const vectorizeIndexes = new WeakMap<Vectorize, VectorizeVectorIndex>();
+
+// Indexing runs at most once per index per isolate, and is skipped once the index holds this
+// catalog version; concurrent callers wait on the same promise
+const indexing = new WeakMap<VectorIndex, Promise<void>>();
+
+/**
+ * Looks a book up in the catalog, matching title and author fuzzily. Without an author, the first
+ * book with a matching title is returned.
+ */
+export function findCatalogBook(book: { title: string; author?: string }): CatalogBook | null {
+  const { author } = book;
+  return CATALOG_BOOKS.find(candidate => author ? isSameBook(candidate, { title: book.title, author }) : isSameTitle(candidate.title, book.title)) ?? null;
+}
+
+/**
+ * The text embedded for a catalog book: what it's about and how it's shelved, so similar books land nearby.
+ */
+export function catalogEmbeddingText(book: CatalogBook): string {
+  return `${book.title} by ${book.author} (${book.year}). ${book.genres.join(", ")}. ${book.description}`;
+}
+
+/**
+ * Embeds texts with Workers AI, in batches the model accepts.
+ * @param ai - The Workers AI binding.
+ */
+export async function embedTexts(ai: any, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const response = await ai.run(EMBEDDING_MODEL, { text: texts.slice(i, i + EMBEDDING_BATCH_SIZE) });
+    vectors.push(...response.data);
+  }
+  return vectors;
+}
+
+/**
+ * The catalog's vector index: Vectorize when the CATALOG_INDEX binding is configured, otherwise an in-memory index.
+ * The Vectorize index records which catalog version it holds in OAUTH_KV.
+ */
+export function getCatalogIndex(env: { CATALOG_INDEX?: Vectorize; OAUTH_KV: KVNamespace }): VectorIndex {
+  if (env.CATALOG_INDEX) {
+    let index = vectorizeIndexes.get(env.CATALOG_INDEX);
+    if (!index) {
+      index = new VectorizeVectorIndex(env.CATALOG_INDEX, env.OAUTH_KV, CATALOG_INDEX_VERSION_KEY);
+      vectorizeIndexes.set(env.CATALOG_INDEX, index);
+    }
+    return index;
+  }
+  inMemoryIndex ??= new InMemoryVectorIndex();
+  return inMemoryIndex;
+}
+
+async function indexCatalog(ai: any, index: VectorIndex): Promise<void> {
+  if ((await index.getVersion()) === CATALOG_VERSION) return;
+
+  console.log(`Indexing ${CATALOG_BOOKS.length} catalog books`);
+  const vectors = await embedTexts(ai, CATALOG_BOOKS.map(catalogEmbeddingText));
+  await index.upsert(CATALOG_BOOKS.map((book, i) => ({ id: `${CATALOG_VERSION}:${book.id}`, values: vectors[i] })));
+  // Only recorded once every book is in, so a failed run is retried in full
+  await index.setVersion(CATALOG_VERSION);
+}
+
+/**
+ * Embeds the catalog into the index unless it's already there.
+ * @param ai - The Workers AI binding.
+ */
+export async function ensureCatalogIndexed(ai: any, index: VectorIndex): Promise<void> {
+  let pending = indexing.get(index);
+  if (!pending) {
+    pending = indexCatalog(ai, index);
+    indexing.set(index, pending);
+    // Let the next call try again if this one failed
+    pending.catch(() => indexing.delete(index));
+  }
+  await pending;
+}
+
+/**
+ * Finds the catalog books closest to any of the query texts, best first.
+ * @param ai - The Workers AI binding.
+ */
+export async function searchCatalog(ai: any, index: VectorIndex, queries: string[], topK: number): Promise<CatalogMatch[]> {
+  if (queries.length === 0) return [];
+  await ensureCatalogIndexed(ai, index);
+
+  const best = new Map<string, number>();
+  for (const vector of await embedTexts(ai, queries)) {
+    for (const match of await index.query(vector, Math.min(topK, MAX_MATCHES_PER_QUERY))) {
+      best.set(match.id, Math.max(best.get(match.id) ?? -Infinity, match.score));
+    }
+  }
+
+  // Vectors left over from an older catalog version are ignored
+  return [...best.entries()]
+    .filter(([id]) => catalogById.has(id))
+    .map(([id, score]) => ({ book: catalogById.get(id) as CatalogBook, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The texts to search the catalog with for a user's taste: the books they loved most, or failing that
+ * their recent reads, or failing that their favorite genres and authors.
+ */
+export function tasteQueries(preferences: BookPreferences): string[] {
+  const loved = preferences.booksRead
+    .filter(b => (b.rating ?? 0) >= HIGH_RATING)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) + (b.rereadCount ?? 0) - (a.rereadCount ?? 0));
+  const liked = loved.length > 0
+    ? loved.slice(0, MAX_QUERIES)
+    : preferences.booksRead.filter(b => !(b.rating !== undefined && b.rating <= LOW_RATING)).slice(-MAX_QUERIES);
+
+  if (liked.length > 0) {
+    // Catalog books are described properly; anything else only has its title, author and genre to go on
+    return liked.map(book => {
+      const known = findCatalogBook(book);
+      return known ? catalogEmbeddingText(known) : `${book.title} by ${book.author}${book.genre ? `. ${book.genre}` : ""}`;
+    });
+  }
+
+  const parts: string[] = [];
+  if (preferences.favoriteGenres.length > 0) parts.push(`Books in these genres: ${preferences.favoriteGenres.join(", ")}.`);
+  if (preferences.favoriteAuthors.length > 0) parts.push(`Books like those by ${preferences.favoriteAuthors.join(", ")}.`);
+  return parts.length > 0 ? [parts.join(" ")] : [];
+}
+
+/**
+ * Describes a catalog book for a prompt, with everything the model needs to compare it with others.
+ */
+export function describeCatalogBook(book: CatalogBook): string {
+  return `"${book.title}" by ${book.author} (${book.year}, ${book.pages} pages; ${book.genres.join(", ")}): ${book.description}`;
+}
+
+/**
+ * Lists catalog books for a prompt, numbered.
+ */
+export function describeCatalogBooks(books: CatalogBook[]): string {
+  return books.map((book, i) => `${i + 1}. ${describeCatalogBook(book)}`).join(" ");
+}
+
+/**
+ * Whether a catalog book meets the genre, length and publication filters of a request. The catalog
+ * doesn't know which formats a book is available in, so that's left to the prompt.
+ */
+export function matchesRequest(book: CatalogBook, request: RecommendationRequest): boolean {
+  if (request.genre && !book.genres.some(genre => isWithinGenre(genre, request.genre as string))) return false;
+  if (request.minPages !== undefined && book.pages < request.minPages) return false;
+  if (request.maxPages !== undefined && book.pages > request.maxPages) return false;
+  if (request.earliestYear !== undefined && book.year < request.earliestYear) return false;
+  if (request.latestYear !== undefined && book.year > request.latestYear) return false;
+  return true;
+}
+
+/**
+ * Finds catalog books similar to what the user likes that meet the request's filters, leaving out
+ * anything they've read, shelved or disliked and anything recommended before.
+ * @param ai - The Workers AI binding.
+ * @param previous - Earlier recommendations that shouldn't come back (see suppressedRecommendations).
+ * @param count - How many books will be recommended from the candidates.
+ * @returns The candidates, most similar first; empty if there's nothing to search from.
+ */
+export async function findCatalogCandidates(
+  ai: any,
+  index: VectorIndex,
+  preferences: BookPreferences,
+  request: RecommendationRequest,
+  previous: Recommendation[],
+  count: number
+): Promise<CatalogMatch[]> {
+  const matches = await searchCatalog(ai, index, tasteQueries(preferences), MAX_MATCHES_PER_QUERY);
+  const eligible = matches.filter(match => matchesRequest(match.book, request));
+  const { kept } = filterRecommendations(eligible.map(match => match.book), preferences, previous);
+  return eligible.filter(match => kept.includes(match.book)).slice(0, Math.min(count * CANDIDATES_PER_PICK, MAX_CANDIDATES));
+}
+
+export const SIMILAR_BOOKS_COUNT = 5;
+export const MAX_SIMILAR_BOOKS = 10;
+
+// Ways a "books like this" search can differ from the original that the catalog can check for itself
+export interface SimilarityTweaks {
+  shorter: boolean;
+  longer: boolean;
+  older: boolean;
+  newer: boolean;
+}
+
+// Books within this fraction of the original's page count are "about as long"
+const SIMILAR_LENGTH = 0.15;
+
+// Books published within this many years of the original are from the same era
+const SAME_ERA_YEARS = 10;
+
+/**
+ * Picks out the length and era tweaks from free text like "shorter and more recent". Anything else
+ * ("darker", "funnier") is left to the embedding search and the model.
+ */
+export function parseSimilarityTweaks(text = ""): SimilarityTweaks {
+  const lower = text.toLowerCase();
+  return {
+    shorter: /\b(shorter|short|quick(er)?|brief(er)?)\b/.test(lower),
+    longer: /\b(longer|long|bigger|doorstop)\b/.test(lower),
+    older: /\b(older|old|classic)\b/.test(lower),
+    newer: /\b(newer|new|recent|modern|contemporary)\b/.test(lower),
+  };
+}
+
+function matchesTweaks(book: CatalogBook, original: CatalogBook, tweaks: SimilarityTweaks): boolean {
+  if (tweaks.shorter && book.pages >= original.pages * (1 - SIMILAR_LENGTH)) return false;
+  if (tweaks.longer && book.pages <= original.pages * (1 + SIMILAR_LENGTH)) return false;
+  if (tweaks.older && book.year >= original.year) return false;
+  if (tweaks.newer && book.year <= original.year) return false;
+  return true;
+}
+
+/**
+ * What a catalog book has in common with another, or how it differs in length and era, for showing
+ * alongside the model's explanation.
+ */
+export function similarityReasons(original: CatalogBook, book: CatalogBook): string[] {
+  const reasons: string[] = [];
+  if (isSameAuthor(original.author, book.author)) reasons.push(`Also by ${book.author}`);
+
+  const shared = book.genres.filter(genre => original.genres.includes(genre));
+  if (shared.length > 0) {
+    reasons.push(`Also ${shared.join(" and ")}`);
+  } else {
+    // Otherwise the nearest broader genre they share, unless it's as broad as "fiction"
+    const roots = rootGenres();
+    const related = book.genres
+      .flatMap(genre => [genre, ...genreAncestors(genre)])
+      .find(genre => !roots.includes(genre) && original.genres.some(other => isWithinGenre(other, genre)));
+    if (related) reasons.push(`Both ${related}`);
+  }
+
+  const lengthRatio = book.pages / original.pages;
+  if (Math.abs(lengthRatio - 1) <= SIMILAR_LENGTH) reasons.push(`About as long (${book.pages} pages)`);
+  else reasons.push(`${lengthRatio < 1 ? "Shorter" : "Longer"} (${book.pages} pages vs ${original.pages})`);
+
+  if (Math.abs(book.year - original.year) <= SAME_ERA_YEARS) reasons.push(`From the same era (${book.year})`);
+  else reasons.push(`${book.year < original.year ? "Older" : "Newer"} (${book.year})`);
+  return reasons;
+}
+
+/**
+ * Finds catalog books similar to one particular book, leaving out the book itself and anything the
+ * user has read, shelved or disliked. Length and era tweaks are applied when the book is in the catalog.
+ * @param ai - The Workers AI binding.
+ * @param count - How many books will be picked from the candidates.
+ * @returns The book's catalog entry if it has one, and the candidates, most similar first.
+ */
+export async function findSimilarCandidates(
+  ai: any,
+  index: VectorIndex,
+  book: { title: string; author?: string },
+  tweaks: string | undefined,
+  preferences: BookPreferences,
+  count: number
+): Promise<{ original: CatalogBook | null; candidates: CatalogMatch[] }> {
+  const original = findCatalogBook(book);
+  let query = original ? catalogEmbeddingText(original) : `${book.title}${book.author ? ` by ${book.author}` : ""}`;
+  if (tweaks) query += ` Like this, but ${tweaks.trim()}.`;
+
+  const parsed = parseSimilarityTweaks(tweaks);
+  const matches = (await searchCatalog(ai, index, [query], MAX_MATCHES_PER_QUERY)).filter(match =>
+    original
+      ? match.book !== original && matchesTweaks(match.book, original, parsed)
+      : !isSameTitle(match.book.title, book.title)
+  );
+  const { kept } = filterRecommendations(matches.map(match => match.book), preferences);
+  return {
+    original,
+    candidates: matches.filter(match => kept.includes(match.book)).slice(0, Math.min(count * CANDIDATES_PER_PICK, MAX_CANDIDATES)),
+  };
+}
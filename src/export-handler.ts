@@ -0,0 +1,44 @@
+import type { Env } from "./index";
+import type { Props } from "./github-handler";
+import type { UserBookPreferences } from "./user-book-preferences";
+import { EXPORT_CONTENT_TYPES, exportFileName, isExportFormat, renderExport } from "./profile-export";
+
+/**
+ * Download route for a user's whole profile, for backups and moving to another service.
+ * Sits behind the OAuth provider, so requests need the same bearer token as the MCP endpoints.
+ *
+ * GET /export?format=json (re-importable, the default), csv (Goodreads-compatible) or jsonld (schema.org)
+ */
+export const ProfileExportHandler = {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (request.method !== "GET") {
+      return Response.json({ error: "Download your export with GET" }, { status: 405, headers: { Allow: "GET" } });
+    }
+
+    const props = (ctx as ExecutionContext & { props?: Props }).props;
+    if (!props?.login) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const format = new URL(request.url).searchParams.get("format") ?? "json";
+    if (!isExportFormat(format)) {
+      return Response.json({ error: `Unknown format "${format}". Use json, csv or jsonld.` }, { status: 400 });
+    }
+
+    const userPreferencesId = env.USER_BOOK_PREFERENCES.idFromName(props.login);
+    const userPreferences = env.USER_BOOK_PREFERENCES.get(userPreferencesId) as DurableObjectStub<UserBookPreferences>;
+    const [preferences, goals, quotes] = await Promise.all([
+      userPreferences.getPreferences(),
+      userPreferences.getGoals(),
+      userPreferences.getQuotes(),
+    ]);
+
+    return new Response(renderExport(format, preferences, goals, quotes), {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${exportFileName(format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  },
+};
@@ -0,0 +1,187 @@
+// Built-in genre taxonomy: canonical genres, their parents and the synonyms that map onto them
+
+import { similarity } from "./matching";
+
+interface GenreDefinition {
+  parent?: string;
+  synonyms?: string[];
+}
+
+// Keyed by canonical genre name. Parents must be defined in this table too.
+export const GENRE_TAXONOMY: Record<string, GenreDefinition> = {
+  fiction: { synonyms: ["novels"] },
+  "literary fiction": { parent: "fiction", synonyms: ["literary", "litfic", "lit fic"] },
+  "magical realism": { parent: "literary fiction" },
+  classics: { parent: "fiction", synonyms: ["classic", "classic literature"] },
+  "historical fiction": { parent: "fiction", synonyms: ["hist fic", "historical novels"] },
+  "science fiction": { parent: "fiction", synonyms: ["sci-fi", "scifi", "sf", "sci fi", "science-fiction", "speculative fiction"] },
+  "space opera": { parent: "science fiction" },
+  "hard science fiction": { parent: "science fiction", synonyms: ["hard sf", "hard sci-fi"] },
+  cyberpunk: { parent: "science fiction" },
+  dystopian: { parent: "science fiction", synonyms: ["dystopia", "dystopian fiction"] },
+  "post-apocalyptic": { parent: "science fiction", synonyms: ["post apocalyptic", "apocalyptic"] },
+  "military science fiction": { parent: "science fiction", synonyms: ["military sf", "military sci-fi"] },
+  fantasy: { parent: "fiction" },
+  "epic fantasy": { parent: "fantasy", synonyms: ["high fantasy"] },
+  "urban fantasy": { parent: "fantasy" },
+  grimdark: { parent: "fantasy", synonyms: ["dark fantasy"] },
+  "cozy fantasy": { parent: "fantasy", synonyms: ["cosy fantasy"] },
+  "sword and sorcery": { parent: "fantasy", synonyms: ["sword & sorcery"] },
+  "fairy tale retellings": { parent: "fantasy", synonyms: ["fairy tales", "retellings", "myth retellings"] },
+  mystery: { parent: "fiction", synonyms: ["mysteries", "whodunit", "whodunnit", "crime", "crime fiction"] },
+  "cozy mystery": { parent: "mystery", synonyms: ["cosy mystery", "cozy crime", "cozies"] },
+  "detective fiction": { parent: "mystery", synonyms: ["detective", "private investigator"] },
+  "police procedural": { parent: "mystery", synonyms: ["procedural"] },
+  noir: { parent: "mystery", synonyms: ["hardboiled", "hard-boiled"] },
+  thriller: { parent: "fiction", synonyms: ["thrillers", "suspense"] },
+  "psychological thriller": { parent: "thriller", synonyms: ["domestic thriller"] },
+  "legal thriller": { parent: "thriller", synonyms: ["courtroom drama"] },
+  "spy thriller": { parent: "thriller", synonyms: ["espionage", "spy fiction"] },
+  "techno-thriller": { parent: "thriller", synonyms: ["techno thriller"] },
+  horror: { parent: "fiction", synonyms: ["scary", "spooky"] },
+  gothic: { parent: "horror", synonyms: ["gothic fiction", "gothic horror"] },
+  "cosmic horror": { parent: "horror", synonyms: ["lovecraftian", "weird fiction"] },
+  "supernatural horror": { parent: "horror", synonyms: ["ghost stories", "paranormal horror"] },
+  romance: { parent: "fiction", synonyms: ["romance novels", "love stories"] },
+  "contemporary romance": { parent: "romance" },
+  "historical romance": { parent: "romance", synonyms: ["regency romance"] },
+  "romantic comedy": { parent: "romance", synonyms: ["romcom", "rom-com", "rom com"] },
+  romantasy: { parent: "romance", synonyms: ["fantasy romance"] },
+  "young adult": { synonyms: ["ya", "teen", "young adult fiction"] },
+  "middle grade": { synonyms: ["mg", "children's", "childrens", "kids"] },
+  "graphic novels": { synonyms: ["comics", "manga", "graphic novel"] },
+  poetry: { synonyms: ["poems", "verse"] },
+  nonfiction: { synonyms: ["non-fiction", "non fiction", "nf"] },
+  biography: { parent: "nonfiction", synonyms: ["biographies", "bio"] },
+  memoir: { parent: "nonfiction", synonyms: ["memoirs", "autobiography"] },
+  history: { parent: "nonfiction", synonyms: ["history books", "narrative history"] },
+  "popular science": { parent: "nonfiction", synonyms: ["science", "pop science", "pop sci"] },
+  "true crime": { parent: "nonfiction" },
+  "self-help": { parent: "nonfiction", synonyms: ["self help", "personal development", "self improvement"] },
+  philosophy: { parent: "nonfiction" },
+  business: { parent: "nonfiction", synonyms: ["business books", "economics"] },
+  travel: { parent: "nonfiction", synonyms: ["travel writing", "travelogue"] },
+  essays: { parent: "nonfiction", synonyms: ["essay collections"] },
+};
+
+// How a piece of free text was mapped onto the taxonomy
+export interface GenreMatch {
+  genre: string;
+  matchedBy: "name" | "synonym" | "fuzzy";
+}
+
+function normalizeGenreText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[_/]/g, " ")
+    .replace(/\s+(books|novels|fiction books)$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Every name and synonym in the taxonomy, mapped to its canonical genre
+const GENRE_LOOKUP = new Map<string, { genre: string; synonym: boolean }>();
+for (const [genre, definition] of Object.entries(GENRE_TAXONOMY)) {
+  GENRE_LOOKUP.set(genre, { genre, synonym: false });
+  for (const synonym of definition.synonyms || []) {
+    GENRE_LOOKUP.set(normalizeGenreText(synonym), { genre, synonym: true });
+  }
+}
+
+/**
+ * Maps free text onto a canonical genre: by name, by synonym (including simple plurals),
+ * or by a close spelling.
+ * @returns The canonical genre, or null if nothing in the taxonomy is close enough.
+ */
+export function resolveGenre(text: string): GenreMatch | null {
+  const normalized = normalizeGenreText(text);
+  if (!normalized) return null;
+
+  const variants = [normalized, normalized.replace(/ies$/, "y"), normalized.replace(/s$/, ""), normalized.replace(/-/g, " ")];
+  for (const candidate of variants) {
+    const entry = GENRE_LOOKUP.get(candidate);
+    if (entry) return { genre: entry.genre, matchedBy: entry.synonym ? "synonym" : "name" };
+  }
+
+  let best: { genre: string; score: number } | null = null;
+  for (const [term, entry] of GENRE_LOOKUP) {
+    const score = similarity(normalized, term);
+    if (score >= 0.85 && (!best || score > best.score)) best = { genre: entry.genre, score };
+  }
+  return best ? { genre: best.genre, matchedBy: "fuzzy" } : null;
+}
+
+/**
+ * The chain of broader genres above a genre, nearest first ("cozy mystery" → ["mystery", "fiction"]).
+ * Genres outside the taxonomy have no ancestors.
+ */
+export function genreAncestors(genre: string): string[] {
+  const ancestors: string[] = [];
+  let parent = GENRE_TAXONOMY[genre]?.parent;
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = GENRE_TAXONOMY[parent]?.parent;
+  }
+  return ancestors;
+}
+
+export function genreChildren(genre: string): string[] {
+  return Object.entries(GENRE_TAXONOMY)
+    .filter(([, definition]) => definition.parent === genre)
+    .map(([name]) => name);
+}
+
+export function rootGenres(): string[] {
+  return Object.entries(GENRE_TAXONOMY)
+    .filter(([, definition]) => !definition.parent)
+    .map(([name]) => name);
+}
+
+/**
+ * Whether a genre sits at or below another in the taxonomy ("cozy mystery" is within "mystery").
+ */
+export function isWithinGenre(genre: string, ancestor: string): boolean {
+  return genre === ancestor || genreAncestors(genre).includes(ancestor);
+}
+
+/**
+ * Suggests canonical genres for free text, closest first.
+ */
+export function suggestGenresFor(text: string, limit = 5): string[] {
+  const normalized = normalizeGenreText(text);
+  const scores = new Map<string, number>();
+  for (const [term, entry] of GENRE_LOOKUP) {
+    const contains = normalized.length > 2 && (term.includes(normalized) || normalized.includes(term));
+    const score = contains ? Math.max(0.75, similarity(normalized, term)) : similarity(normalized, term);
+    if (score >= 0.5 && score > (scores.get(entry.genre) ?? 0)) scores.set(entry.genre, score);
+  }
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([genre]) => genre);
+}
+
+/**
+ * Suggests genres to explore next based on the ones a user already likes: sub-genres first,
+ * then sibling genres that share a parent.
+ */
+export function suggestRelatedGenres(favorites: string[], limit = 8): string[] {
+  const suggestions: string[] = [];
+  const add = (genre: string) => {
+    if (!favorites.includes(genre) && !suggestions.includes(genre)) suggestions.push(genre);
+  };
+  for (const genre of favorites) genreChildren(genre).forEach(add);
+  for (const genre of favorites) {
+    const parent = GENRE_TAXONOMY[genre]?.parent;
+    if (parent) genreChildren(parent).forEach(add);
+  }
+  return suggestions.slice(0, limit);
+}
+
+/**
+ * Describes a genre with its ancestry for prompts and listings, e.g. "cozy mystery (mystery › fiction)".
+ */
+export function describeGenre(genre: string): string {
+  const ancestors = genreAncestors(genre);
+  return ancestors.length > 0 ? `${genre} (${ancestors.join(" › ")})` : genre;
+}
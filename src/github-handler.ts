@@ -1,8 +1,19 @@
 import type { AuthRequest, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
 import { cors } from "hono/cors";
 import { Octokit } from "octokit";
 import { clientIdAlreadyApproved, parseRedirectApproval, renderApprovalDialog } from "./workers-oauth-utils";
+import type { UserBookPreferences } from "./user-book-preferences";
+import {
+  ATOM_CONTENT_TYPE,
+  OPDS2_CONTENT_TYPE,
+  OPDS_CATALOGS,
+  buildCatalogFeed,
+  buildRootFeed,
+  isOpdsCatalog,
+  renderAtomFeed,
+  renderOpds2Feed,
+} from "./opds";
 
 interface Env {
   GITHUB_CLIENT_ID: string;
@@ -10,6 +21,7 @@ interface Env {
   COOKIE_ENCRYPTION_KEY: string;
   OAUTH_KV: KVNamespace;
   OAUTH_PROVIDER: OAuthHelpers;
+  USER_BOOK_PREFERENCES: DurableObjectNamespace;
   AI: any;
 }
 
@@ -308,9 +320,49 @@ app.get("/test-mcp", async (c) => {
   }
 });
 
+// OPDS catalogs for e-reader apps. /opds is also registered in the OAuth provider's apiHandlers,
+// so these requests need a bearer token and arrive with the user's props
+app.get("/opds", (c) => serveOpds(c, 1));
+app.get("/opds/v2", (c) => serveOpds(c, 2));
+app.get("/opds/v2/:catalog", (c) => serveOpds(c, 2, c.req.param("catalog")));
+app.get("/opds/:catalog", (c) => serveOpds(c, 1, c.req.param("catalog")));
+
 export { app as GitHubHandler };
 
 
+// Render the root catalog, or a page of one catalog, as OPDS 1.2 Atom or OPDS 2.0 JSON
+async function serveOpds(c: Context<{ Bindings: Env }>, version: 1 | 2, catalog?: string) {
+  const props = (c.executionCtx as ExecutionContext & { props?: Props }).props;
+  if (!props?.login) {
+    return c.text("Unauthorized", 401);
+  }
+  if (catalog !== undefined && !isOpdsCatalog(catalog)) {
+    return c.text(`Unknown catalog "${catalog}". Try ${Object.keys(OPDS_CATALOGS).join(", ")}.`, 404);
+  }
+
+  const userPreferencesId = c.env.USER_BOOK_PREFERENCES.idFromName(props.login);
+  const userPreferences = c.env.USER_BOOK_PREFERENCES.get(userPreferencesId) as DurableObjectStub<UserBookPreferences>;
+
+  let feed;
+  if (catalog === undefined) {
+    feed = buildRootFeed(props.login, new Date().toISOString());
+  } else {
+    const [preferences, recommendations] = await Promise.all([
+      userPreferences.getPreferences(),
+      userPreferences.getLatestRecommendations(),
+    ]);
+    feed = buildCatalogFeed(catalog, props.login, preferences, recommendations, Number(c.req.query("page")) || 1);
+  }
+
+  const base = new URL(version === 2 ? "/opds/v2" : "/opds", c.req.url).href;
+  const headers = { "Cache-Control": "private, no-cache" };
+  if (version === 2) {
+    return new Response(JSON.stringify(renderOpds2Feed(feed, base)), { headers: { ...headers, "Content-Type": OPDS2_CONTENT_TYPE } });
+  }
+  return new Response(renderAtomFeed(feed, base), { headers: { ...headers, "Content-Type": ATOM_CONTENT_TYPE } });
+}
+
+
 //Redirect to GitHub OAuth authorization
 async function redirectToGithub(
   request: Request, 
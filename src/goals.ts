@@ -0,0 +1,180 @@
+import type { ReadBook } from "./preferences";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How often the UserBookPreferences alarm snapshots goal progress
+export const GOAL_SNAPSHOT_INTERVAL_MS = WEEK_MS;
+
+export type GoalPeriod = "year" | "month";
+export type GoalMetric = "books" | "pages";
+
+export interface ReadingGoal {
+  period: GoalPeriod;
+  metric: GoalMetric;
+  target: number;
+  createdAt: string;
+}
+
+export interface GoalProgress {
+  goal: ReadingGoal;
+  periodLabel: string;
+  periodStart: string;
+  periodEnd: string;
+  completed: number;
+  // How many should be done by now at an even pace
+  expected: number;
+  // Where the current pace lands by the end of the period
+  projected: number;
+  // Books or pages per week needed from now on to hit the target
+  requiredWeeklyPace: number;
+  status: "complete" | "ahead" | "on track" | "behind";
+  // Books finished in the period that have no page count, so can't count towards a pages goal
+  booksMissingPages: number;
+}
+
+export interface Reminder {
+  id: number;
+  createdAt: string;
+  message: string;
+}
+
+function periodBounds(period: GoalPeriod, now: Date): { start: Date; end: Date; label: string } {
+  const year = now.getUTCFullYear();
+  if (period === "year") {
+    return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)), label: String(year) };
+  }
+  const month = now.getUTCMonth();
+  const start = new Date(Date.UTC(year, month, 1));
+  return {
+    start,
+    end: new Date(Date.UTC(year, month + 1, 1)),
+    label: start.toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" }),
+  };
+}
+
+/**
+ * Works out how far along a goal is, using each book's finished date (or the date it was added
+ * for books logged without one).
+ * @param goal - The goal to measure.
+ * @param booksRead - The user's read books.
+ * @param now - The current time.
+ */
+export function computeGoalProgress(goal: ReadingGoal, booksRead: ReadBook[], now = new Date()): GoalProgress {
+  const { start, end, label } = periodBounds(goal.period, now);
+
+  const finished = booksRead.filter(book => {
+    const date = new Date(book.dateFinished || book.dateAdded);
+    return date >= start && date < end;
+  });
+  const completed = goal.metric === "books" ? finished.length : finished.reduce((total, book) => total + (book.pages ?? 0), 0);
+
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / (end.getTime() - start.getTime())));
+  const expected = goal.target * elapsed;
+  const projected = elapsed > 0 ? completed / elapsed : 0;
+  const weeksLeft = Math.max(1 / 7, (end.getTime() - now.getTime()) / WEEK_MS);
+
+  // Within 5% of the target (and at least one book's worth for book goals) counts as on track
+  const tolerance = Math.max(goal.metric === "books" ? 1 : 0, goal.target * 0.05);
+  let status: GoalProgress["status"];
+  if (completed >= goal.target) status = "complete";
+  else if (completed - expected >= tolerance) status = "ahead";
+  else if (expected - completed >= tolerance) status = "behind";
+  else status = "on track";
+
+  return {
+    goal,
+    periodLabel: label,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    completed,
+    expected,
+    projected,
+    requiredWeeklyPace: Math.max(0, goal.target - completed) / weeksLeft,
+    status,
+    booksMissingPages: goal.metric === "pages" ? finished.filter(book => !book.pages).length : 0,
+  };
+}
+
+/**
+ * One-line summary of a goal's progress, e.g. "2026: 14 of 24 books (behind by 3)".
+ */
+export function describeGoalProgress(progress: GoalProgress): string {
+  const { goal, completed, expected, status } = progress;
+  const gap = Math.round(Math.abs(completed - expected));
+  const detail = status === "ahead" || status === "behind" ? ` (${status} by ${gap} ${goal.metric})` : ` (${status})`;
+  return `${progress.periodLabel}: ${completed} of ${goal.target} ${goal.metric}${detail}`;
+}
+
+/**
+ * A nudge to show the user next session, or null if the goal doesn't need one.
+ */
+export function reminderFor(progress: GoalProgress): string | null {
+  const { goal } = progress;
+  if (progress.status === "behind") {
+    const pace = progress.requiredWeeklyPace;
+    const paceText = goal.metric === "books" ? `${pace.toFixed(1)} books` : `${Math.ceil(pace)} pages`;
+    return `📚 You're behind on your ${progress.periodLabel} goal of ${goal.target} ${goal.metric} (${progress.completed} so far). About ${paceText} a week will get you there!`;
+  }
+  if (progress.status === "complete") {
+    return `🎉 You hit your ${progress.periodLabel} goal of ${goal.target} ${goal.metric}!`;
+  }
+  return null;
+}
+
+export function listGoals(sql: SqlStorage): ReadingGoal[] {
+  return sql
+    .exec<{ period: string; metric: string; target: number; created_at: string }>("SELECT period, metric, target, created_at FROM goals ORDER BY period, metric")
+    .toArray()
+    .map(row => ({ period: row.period as GoalPeriod, metric: row.metric as GoalMetric, target: row.target, createdAt: row.created_at }));
+}
+
+export function saveGoal(sql: SqlStorage, goal: ReadingGoal) {
+  sql.exec(
+    `INSERT INTO goals (period, metric, target, created_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(period, metric) DO UPDATE SET target = excluded.target`,
+    goal.period,
+    goal.metric,
+    goal.target,
+    goal.createdAt
+  );
+}
+
+export function deleteGoal(sql: SqlStorage, period: GoalPeriod, metric: GoalMetric): boolean {
+  return sql.exec("DELETE FROM goals WHERE period = ? AND metric = ?", period, metric).rowsWritten > 0;
+}
+
+export function recordSnapshot(sql: SqlStorage, progress: GoalProgress) {
+  sql.exec(
+    "INSERT INTO goal_snapshots (period, metric, period_start, taken_at, completed, target, status) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    progress.goal.period,
+    progress.goal.metric,
+    progress.periodStart,
+    new Date().toISOString(),
+    progress.completed,
+    progress.goal.target,
+    progress.status
+  );
+}
+
+/**
+ * Queues a reminder unless the same message has been queued before, so a finished goal is only celebrated once.
+ */
+export function queueReminder(sql: SqlStorage, message: string) {
+  const existing = sql.exec("SELECT id FROM reminders WHERE message = ?", message).toArray();
+  if (existing.length > 0) return;
+  sql.exec("INSERT INTO reminders (created_at, message) VALUES (?, ?)", new Date().toISOString(), message);
+}
+
+export function pendingReminders(sql: SqlStorage): Reminder[] {
+  return sql
+    .exec<{ id: number; created_at: string; message: string }>("SELECT id, created_at, message FROM reminders WHERE shown_at IS NULL ORDER BY id")
+    .toArray()
+    .map(row => ({ id: row.id, createdAt: row.created_at, message: row.message }));
+}
+
+export function markRemindersShown(sql: SqlStorage, ids: number[]) {
+  const now = new Date().toISOString();
+  for (const id of ids) {
+    sql.exec("UPDATE reminders SET shown_at = ? WHERE id = ?", now, id);
+  }
+}
@@ -0,0 +1,141 @@
+// Recommendations for a reading group: merging members' profiles and explaining how each pick suits each member
+
+import type { BookPreferences } from "./preferences";
+import { isSameAuthor, isSameBook } from "./book-identity";
+import { findCatalogBook } from "./catalog";
+import { describeGenre, isWithinGenre, resolveGenre } from "./genres";
+import { HIGH_RATING, LOW_RATING } from "./stats";
+
+export const GROUP_RECOMMENDATION_COUNT = 3;
+export const MAX_GROUP_RECOMMENDATION_COUNT = 5;
+
+// A member who has opted in to sharing, with their profile
+export interface SharingMember {
+  login: string;
+  name: string;
+  preferences: BookPreferences;
+}
+
+export interface MemberFit {
+  login: string;
+  name: string;
+  fit: string;
+  // Positive when their profile suggests they'd enjoy the book, negative when it suggests they wouldn't
+  score: number;
+}
+
+function unique<T>(items: T[], isSame: (a: T, b: T) => boolean): T[] {
+  return items.filter((item, i) => items.findIndex(other => isSame(other, item)) === i);
+}
+
+/**
+ * Combines members' profiles into one, so the recommendation pipeline excludes anything any member
+ * has read, is reading, gave up on or disliked, and any author one of them dislikes.
+ */
+export function mergeGroupPreferences(members: SharingMember[]): BookPreferences {
+  const all = members.map(member => member.preferences);
+  const dislikedAuthors = unique(all.flatMap(p => p.dislikedAuthors), isSameAuthor);
+  return {
+    userName: members.map(member => member.name).join(", "),
+    favoriteGenres: unique(all.flatMap(p => p.favoriteGenres), (a, b) => a === b),
+    genreWording: {},
+    // An author one member loves and another dislikes is left out
+    favoriteAuthors: unique(all.flatMap(p => p.favoriteAuthors), isSameAuthor).filter(
+      author => !dislikedAuthors.some(disliked => isSameAuthor(disliked, author))
+    ),
+    booksRead: all.flatMap(p => p.booksRead),
+    dislikedBooks: all.flatMap(p => p.dislikedBooks),
+    dislikedAuthors,
+    // A book one member wants to read is a good pick for the group, so it isn't excluded
+    wantToRead: [],
+    currentlyReading: all.flatMap(p => p.currentlyReading),
+    didNotFinish: all.flatMap(p => p.didNotFinish),
+  };
+}
+
+/**
+ * What each member's profile says about their taste, for the reader data in the prompt.
+ */
+export function groupMemberData(members: SharingMember[]): Array<Record<string, unknown>> {
+  return members.map(({ name, preferences }) => {
+    const data: Record<string, unknown> = { name };
+    const loved = preferences.booksRead
+      .filter(b => (b.rating ?? 0) >= HIGH_RATING)
+      .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
+    const lowRated = preferences.booksRead.filter(b => b.rating !== undefined && b.rating <= LOW_RATING);
+    if (preferences.favoriteGenres.length > 0) data.favoriteGenres = preferences.favoriteGenres.map(describeGenre);
+    if (preferences.favoriteAuthors.length > 0) data.favoriteAuthors = preferences.favoriteAuthors;
+    if (loved.length > 0) data.lovedBooks = loved.slice(0, 5).map(b => `"${b.title}" by ${b.author} (${b.rating}/5)`);
+    if (lowRated.length > 0) data.didNotEnjoy = lowRated.slice(-5).map(b => `"${b.title}" by ${b.author} (${b.rating}/5)`);
+    if (preferences.dislikedAuthors.length > 0) data.dislikedAuthors = preferences.dislikedAuthors;
+    if (preferences.wantToRead.length > 0) data.wantToRead = preferences.wantToRead.slice(-5).map(b => `"${b.title}" by ${b.author}`);
+    return data;
+  });
+}
+
+/**
+ * Explains how a book suits one member, from their favorite authors and genres, the books they rated
+ * and their want-to-read shelf. Genres come from the catalog when the book is in it.
+ */
+export function describeMemberFit(book: { title: string; author: string; genres: string[] }, member: SharingMember): MemberFit {
+  const { preferences } = member;
+  const genres = findCatalogBook(book)?.genres ?? book.genres.map(genre => resolveGenre(genre)?.genre ?? genre.toLowerCase());
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (preferences.wantToRead.some(b => isSameBook(b, book))) {
+    score += 3;
+    reasons.push("it's on their want-to-read shelf");
+  }
+
+  const loved = preferences.booksRead.filter(b => (b.rating ?? 0) >= HIGH_RATING);
+  const lovedByAuthor = loved.find(b => isSameAuthor(b.author, book.author));
+  const dislikedByAuthor = [...preferences.booksRead.filter(b => b.rating !== undefined && b.rating <= LOW_RATING), ...preferences.didNotFinish].find(
+    b => isSameAuthor(b.author, book.author)
+  );
+  if (preferences.favoriteAuthors.some(author => isSameAuthor(author, book.author))) {
+    score += 2;
+    reasons.push(`${book.author} is one of their favorite authors`);
+  } else if (lovedByAuthor) {
+    score += 2;
+    reasons.push(`they loved "${lovedByAuthor.title}" by the same author`);
+  } else if (dislikedByAuthor) {
+    score -= 1;
+    reasons.push(`they didn't get on with "${dislikedByAuthor.title}" by the same author`);
+  }
+
+  const favoriteGenre = preferences.favoriteGenres.find(favorite => genres.some(genre => isWithinGenre(genre, favorite)));
+  if (favoriteGenre) {
+    score += 1;
+    reasons.push(`${favoriteGenre} is one of their favorite genres`);
+  } else {
+    // Genres of loved books, from their shelf entry or their catalog entry
+    for (const lovedBook of loved) {
+      const shared = (lovedBook.genre ? [lovedBook.genre] : findCatalogBook(lovedBook)?.genres ?? []).find(genre => genres.includes(genre));
+      if (shared) {
+        score += 1;
+        reasons.push(`it's ${shared}, like "${lovedBook.title}", which they loved`);
+        break;
+      }
+    }
+  }
+
+  const fit = reasons.length > 0 ? reasons.join("; ") : "nothing in their profile points either way, so it's something new for them";
+  return { login: member.login, name: member.name, fit: `${fit[0].toUpperCase()}${fit.slice(1)}.`, score };
+}
+
+/**
+ * Says which member a book was left out for, e.g. "read by Sam".
+ * @returns The reason, or null if no member has it on a shelf or dislikes its author.
+ */
+export function describeGroupExclusion(book: { title: string; author: string }, members: SharingMember[]): string | null {
+  for (const { name, preferences } of members) {
+    if (preferences.booksRead.some(b => isSameBook(b, book))) return `read by ${name}`;
+    if (preferences.dislikedBooks.some(b => isSameBook(b, book))) return `disliked by ${name}`;
+    if (preferences.currentlyReading.some(b => isSameBook(b, book))) return `${name} is reading it`;
+    if (preferences.didNotFinish.some(b => isSameBook(b, book))) return `${name} gave up on it`;
+    const author = preferences.dislikedAuthors.find(disliked => isSameAuthor(disliked, book.author));
+    if (author) return `${name} dislikes ${author}`;
+  }
+  return null;
+}
@@ -0,0 +1,211 @@
+// Reading groups: members, invite codes and sharing consent, stored in each group's ReadingGroup Durable Object
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long an invite code can be used for
+export const INVITE_TTL_MS = 7 * DAY_MS;
+
+// Letters and digits that can't be mistaken for each other when read out or copied by hand
+const CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export type GroupRole = "owner" | "member";
+
+export interface GroupMember {
+  login: string; // GitHub login, which also names the member's UserBookPreferences Durable Object
+  name: string;
+  role: GroupRole;
+  joinedAt: string;
+  // Whether they've agreed to the group's recommendations using their profile; off until they opt in
+  sharing: boolean;
+  sharingChangedAt: string | null;
+}
+
+export interface ReadingGroupInfo {
+  id: string;
+  name: string;
+  owner: string;
+  createdAt: string;
+  members: GroupMember[];
+}
+
+export interface GroupInvite {
+  code: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// A group as recorded in the member's own UserBookPreferences, so they can list their groups
+export interface GroupMembership {
+  groupId: string;
+  name: string;
+  role: GroupRole;
+  joinedAt: string;
+}
+
+type GroupRow = {
+  id: string;
+  name: string;
+  owner: string;
+  created_at: string;
+};
+
+type MemberRow = {
+  login: string;
+  name: string;
+  role: GroupRole;
+  joined_at: string;
+  sharing: number;
+  sharing_changed_at: string | null;
+};
+
+type MembershipRow = {
+  group_id: string;
+  name: string;
+  role: GroupRole;
+  joined_at: string;
+};
+
+// Bytes at or above this would favour the first letters of the alphabet, so they're drawn again
+const UNBIASED_BYTE_LIMIT = 256 - (256 % CODE_ALPHABET.length);
+
+function randomCode(length: number): string {
+  let code = "";
+  while (code.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < UNBIASED_BYTE_LIMIT && code.length < length) code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+    }
+  }
+  return code;
+}
+
+export function createGroupId(): string {
+  return randomCode(10);
+}
+
+/**
+ * Invite codes start with the group's ID, so a code is all someone needs to find the group and join it.
+ */
+export function createInviteCode(groupId: string): string {
+  return `${groupId}-${randomCode(8)}`;
+}
+
+/**
+ * @returns The ID of the group an invite code is for, or null if it isn't shaped like an invite code.
+ */
+export function parseInviteCode(code: string): string | null {
+  const match = code.trim().toLowerCase().match(/^([a-z0-9]{10})-[a-z0-9]{8}$/);
+  return match ? match[1] : null;
+}
+
+// Tables for a ReadingGroup Durable Object; groups are new, so there's no older schema to migrate from
+export function createGroupTables(sql: SqlStorage) {
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS reading_group (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      owner TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS members (
+      login TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('owner', 'member')),
+      joined_at TEXT NOT NULL,
+      sharing INTEGER NOT NULL DEFAULT 0,
+      sharing_changed_at TEXT
+    );
+    CREATE TABLE IF NOT EXISTS invites (
+      code TEXT PRIMARY KEY,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      used_by TEXT,
+      used_at TEXT
+    );
+  `);
+}
+
+export function readGroup(sql: SqlStorage): ReadingGroupInfo | null {
+  const group = sql.exec<GroupRow>("SELECT * FROM reading_group").toArray()[0];
+  if (!group) return null;
+  const members = sql
+    .exec<MemberRow>("SELECT * FROM members ORDER BY role = 'owner' DESC, joined_at, login")
+    .toArray()
+    .map(row => ({
+      login: row.login,
+      name: row.name,
+      role: row.role,
+      joinedAt: row.joined_at,
+      sharing: row.sharing === 1,
+      sharingChangedAt: row.sharing_changed_at,
+    }));
+  return { id: group.id, name: group.name, owner: group.owner, createdAt: group.created_at, members };
+}
+
+export function insertGroup(sql: SqlStorage, id: string, name: string, owner: { login: string; name: string }, now = new Date().toISOString()) {
+  sql.exec("INSERT INTO reading_group (id, name, owner, created_at) VALUES (?, ?, ?, ?)", id, name, owner.login, now);
+  insertMember(sql, owner, "owner", now);
+}
+
+export function insertMember(sql: SqlStorage, member: { login: string; name: string }, role: GroupRole, now = new Date().toISOString()) {
+  sql.exec("INSERT INTO members (login, name, role, joined_at) VALUES (?, ?, ?, ?)", member.login, member.name, role, now);
+}
+
+export function deleteMember(sql: SqlStorage, login: string): boolean {
+  return sql.exec("DELETE FROM members WHERE login = ? AND role != 'owner'", login).rowsWritten > 0;
+}
+
+export function setMemberSharing(sql: SqlStorage, login: string, sharing: boolean, now = new Date().toISOString()): boolean {
+  return sql.exec("UPDATE members SET sharing = ?, sharing_changed_at = ? WHERE login = ?", sharing ? 1 : 0, now, login).rowsWritten > 0;
+}
+
+export function insertInvite(sql: SqlStorage, code: string, createdBy: string, now = new Date()): GroupInvite {
+  const invite = {
+    code,
+    createdBy,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + INVITE_TTL_MS).toISOString(),
+  };
+  sql.exec("INSERT INTO invites (code, created_by, created_at, expires_at) VALUES (?, ?, ?, ?)", code, createdBy, invite.createdAt, invite.expiresAt);
+  return invite;
+}
+
+/**
+ * Marks an invite as used. Each code lets one person join.
+ * @returns Whether the code was valid, unused and unexpired.
+ */
+export function useInvite(sql: SqlStorage, code: string, login: string, now = new Date().toISOString()): boolean {
+  return sql.exec("UPDATE invites SET used_by = ?, used_at = ? WHERE code = ? AND used_by IS NULL AND expires_at > ?", login, now, code, now).rowsWritten > 0;
+}
+
+export function listOpenInvites(sql: SqlStorage, now = new Date().toISOString()): GroupInvite[] {
+  return sql
+    .exec<{ code: string; created_by: string; created_at: string; expires_at: string }>(
+      "SELECT code, created_by, created_at, expires_at FROM invites WHERE used_by IS NULL AND expires_at > ? ORDER BY created_at",
+      now
+    )
+    .toArray()
+    .map(row => ({ code: row.code, createdBy: row.created_by, createdAt: row.created_at, expiresAt: row.expires_at }));
+}
+
+export function listGroupMemberships(sql: SqlStorage): GroupMembership[] {
+  return sql
+    .exec<MembershipRow>("SELECT * FROM reading_groups ORDER BY joined_at")
+    .toArray()
+    .map(row => ({ groupId: row.group_id, name: row.name, role: row.role, joinedAt: row.joined_at }));
+}
+
+export function saveGroupMembership(sql: SqlStorage, membership: GroupMembership) {
+  sql.exec(
+    "INSERT OR REPLACE INTO reading_groups (group_id, name, role, joined_at) VALUES (?, ?, ?, ?)",
+    membership.groupId,
+    membership.name,
+    membership.role,
+    membership.joinedAt
+  );
+}
+
+export function deleteGroupMembership(sql: SqlStorage, groupId: string): boolean {
+  return sql.exec("DELETE FROM reading_groups WHERE group_id = ?", groupId).rowsWritten > 0;
+}
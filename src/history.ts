@@ -0,0 +1,254 @@
+import type { BookPreferences } from "./preferences";
+
+// How long undo information is kept before it is pruned from the events table
+export const HISTORY_RETENTION_DAYS = 30;
+
+// Who made a change and through which tool
+export interface ChangeContext {
+  actor: string;
+  tool: string;
+}
+
+// An entry added to, removed from or changed in a list, with its position and value on each side
+export interface EntryChange {
+  key: string; // The book's work ID, or the name for genre and author lists
+  before?: { index: number; value: unknown };
+  after?: { index: number; value: unknown };
+}
+
+// How one top-level preference changed: the entries of a list that changed, or the whole value before
+// and after for anything else (and for events recorded before entry changes existed)
+export type FieldChange = { entries: EntryChange[] } | { before: unknown; after: unknown };
+
+export type PreferencesDiff = Partial<Record<keyof BookPreferences, FieldChange>>;
+
+export type EventStatus = "applied" | "undone" | "superseded" | "expired";
+
+export interface HistoryEntry {
+  id: number;
+  type: string;
+  createdAt: string;
+  actor: string | null;
+  tool: string | null;
+  status: EventStatus | null;
+  fields: string[];
+}
+
+type EventRow = {
+  id: number;
+  type: string;
+  created_at: string;
+  actor: string | null;
+  tool: string | null;
+  diff: string | null;
+  status: EventStatus | null;
+};
+
+// Identifies a list entry across versions: books by work ID, genres and authors by name
+function entryKey(entry: unknown): string {
+  if (typeof entry === "string") return entry;
+  const book = entry as { workId?: string; title?: string; author?: string };
+  return book.workId ?? JSON.stringify([book.title, book.author]);
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+/**
+ * Lists the entries added, removed or changed between two versions of a list.
+ * @returns The changes, or null if the list can't be rebuilt from them (duplicate keys, or entries
+ * that were only reordered), in which case the whole list is recorded instead.
+ */
+function diffEntries(before: unknown[], after: unknown[]): EntryChange[] | null {
+  const beforeKeys = before.map(entryKey);
+  const afterKeys = after.map(entryKey);
+  if (new Set(beforeKeys).size !== beforeKeys.length || new Set(afterKeys).size !== afterKeys.length) return null;
+
+  const beforeIndex = new Map(beforeKeys.map((key, i) => [key, i]));
+  const afterIndex = new Map(afterKeys.map((key, i) => [key, i]));
+  const changes: EntryChange[] = [];
+  const changed = new Set<string>();
+  beforeKeys.forEach((key, i) => {
+    if (!afterIndex.has(key)) changes.push({ key, before: { index: i, value: before[i] } });
+  });
+  afterKeys.forEach((key, i) => {
+    const j = beforeIndex.get(key);
+    if (j === undefined) {
+      changes.push({ key, after: { index: i, value: after[i] } });
+    } else if (JSON.stringify(before[j]) !== JSON.stringify(after[i])) {
+      changes.push({ key, before: { index: j, value: before[j] }, after: { index: i, value: after[i] } });
+      changed.add(key);
+    }
+  });
+
+  // Untouched entries are left where they are, so they must be in the same order on both sides
+  const untouched = (key: string) => beforeIndex.has(key) && afterIndex.has(key) && !changed.has(key);
+  return sameOrder(beforeKeys.filter(untouched), afterKeys.filter(untouched)) ? changes : null;
+}
+
+function applyEntries(list: unknown[], changes: EntryChange[], side: "before" | "after"): unknown[] {
+  const touched = new Set(changes.map(change => change.key));
+  const result = list.filter(entry => !touched.has(entryKey(entry)));
+  // Inserting in ascending order puts each entry at its recorded position
+  const placed = changes.flatMap(change => (change[side] ? [change[side]] : [])).sort((a, b) => a.index - b.index);
+  for (const { index, value } of placed) result.splice(index, 0, structuredClone(value));
+  return result;
+}
+
+/**
+ * Compares two versions of a user's preferences, field by field. Lists record only the entries that
+ * were added, removed or changed, so even a large import or clear stays a manageable size.
+ * The user's display name is left out since it follows their GitHub profile rather than their edits.
+ * @returns The changed fields, or null if nothing changed.
+ */
+export function diffPreferences(before: BookPreferences, after: BookPreferences): PreferencesDiff | null {
+  const diff: PreferencesDiff = {};
+  for (const key of Object.keys(after) as Array<keyof BookPreferences>) {
+    if (key === "userName") continue;
+    const beforeValue = before[key] ?? null;
+    const afterValue = after[key] ?? null;
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) continue;
+    const entries = Array.isArray(beforeValue) && Array.isArray(afterValue) ? diffEntries(beforeValue, afterValue) : null;
+    diff[key] = entries ? { entries } : { before: before[key], after: after[key] };
+  }
+  return Object.keys(diff).length > 0 ? diff : null;
+}
+
+/**
+ * Applies one side of a recorded diff to a copy of the preferences.
+ * @param preferences - The current preferences.
+ * @param diff - A diff recorded by diffPreferences.
+ * @param side - "before" to undo the change, "after" to redo it.
+ */
+export function applyDiff(preferences: BookPreferences, diff: PreferencesDiff, side: "before" | "after"): BookPreferences {
+  const result = structuredClone(preferences) as unknown as Record<string, unknown>;
+  for (const [key, change] of Object.entries(diff)) {
+    result[key] = "entries" in change
+      ? applyEntries(Array.isArray(result[key]) ? (result[key] as unknown[]) : [], change.entries, side)
+      : structuredClone(change[side]);
+  }
+  return result as unknown as BookPreferences;
+}
+
+type EntryChangeRow = {
+  field: string;
+  key: string;
+  before_index: number | null;
+  before_value: string | null;
+  after_index: number | null;
+  after_value: string | null;
+};
+
+/**
+ * Records a change in the events table. Any undone changes can no longer be redone once a new change lands.
+ * List entries go in event_changes, one row each, so no single value grows with the size of the library.
+ */
+export function recordChange(sql: SqlStorage, context: ChangeContext, diff: PreferencesDiff, summary: unknown) {
+  sql.exec("UPDATE events SET status = 'superseded' WHERE status = 'undone'");
+  // The events row only says how many entries each list has in event_changes
+  const stored = Object.fromEntries(
+    Object.entries(diff).map(([field, change]) => [field, "entries" in change ? { entries: change.entries.length } : change])
+  );
+  const { id } = sql
+    .exec<{ id: number }>(
+      "INSERT INTO events (type, created_at, data, actor, tool, diff, status) VALUES ('update', ?, ?, ?, ?, ?, 'applied') RETURNING id",
+      new Date().toISOString(),
+      JSON.stringify(summary),
+      context.actor,
+      context.tool,
+      JSON.stringify(stored)
+    )
+    .one();
+  for (const [field, change] of Object.entries(diff)) {
+    if (!("entries" in change)) continue;
+    for (const entry of change.entries) {
+      sql.exec(
+        "INSERT INTO event_changes (event_id, field, key, before_index, before_value, after_index, after_value) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        id,
+        field,
+        entry.key,
+        entry.before?.index ?? null,
+        entry.before ? JSON.stringify(entry.before.value) : null,
+        entry.after?.index ?? null,
+        entry.after ? JSON.stringify(entry.after.value) : null
+      );
+    }
+  }
+}
+
+/**
+ * Appends an audit-only entry (such as an undo or redo) that can't itself be undone.
+ */
+export function recordEvent(sql: SqlStorage, type: string, context: ChangeContext, data: unknown) {
+  sql.exec(
+    "INSERT INTO events (type, created_at, data, actor, tool) VALUES (?, ?, ?, ?, ?)",
+    type,
+    new Date().toISOString(),
+    JSON.stringify(data),
+    context.actor,
+    context.tool
+  );
+}
+
+// The next change undo or redo would act on: the latest applied change, or the most recently undone one
+export function findUndoable(sql: SqlStorage, status: "applied" | "undone"): { id: number; tool: string | null; diff: PreferencesDiff } | null {
+  const order = status === "applied" ? "id DESC" : "undone_at DESC, id ASC";
+  const rows = sql
+    .exec<EventRow>(`SELECT id, tool, diff FROM events WHERE status = ? AND diff IS NOT NULL ORDER BY ${order} LIMIT 1`, status)
+    .toArray();
+  if (rows.length === 0) return null;
+
+  const stored = JSON.parse(rows[0].diff as string) as Record<string, FieldChange | { entries: number }>;
+  const changes = sql
+    .exec<EntryChangeRow>("SELECT field, key, before_index, before_value, after_index, after_value FROM event_changes WHERE event_id = ? ORDER BY id", rows[0].id)
+    .toArray();
+  const diff: Record<string, FieldChange> = {};
+  for (const [field, change] of Object.entries(stored)) {
+    diff[field] = "entries" in change
+      ? {
+          entries: changes
+            .filter(row => row.field === field)
+            .map(row => ({
+              key: row.key,
+              ...(row.before_value !== null ? { before: { index: row.before_index as number, value: JSON.parse(row.before_value) } } : {}),
+              ...(row.after_value !== null ? { after: { index: row.after_index as number, value: JSON.parse(row.after_value) } } : {}),
+            })),
+        }
+      : change;
+  }
+  return { id: rows[0].id, tool: rows[0].tool, diff: diff as PreferencesDiff };
+}
+
+export function setEventStatus(sql: SqlStorage, id: number, status: EventStatus) {
+  sql.exec(
+    "UPDATE events SET status = ?, undone_at = ? WHERE id = ?",
+    status,
+    status === "undone" ? new Date().toISOString() : null,
+    id
+  );
+}
+
+/**
+ * Drops undo information older than the retention window, keeping the who/when/what record.
+ */
+export function pruneHistory(sql: SqlStorage) {
+  const cutoff = new Date(Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  sql.exec("UPDATE events SET diff = NULL, status = 'expired' WHERE created_at < ? AND diff IS NOT NULL", cutoff);
+  sql.exec("DELETE FROM event_changes WHERE event_id IN (SELECT id FROM events WHERE created_at < ?)", cutoff);
+}
+
+export function listHistory(sql: SqlStorage, limit: number): HistoryEntry[] {
+  return sql
+    .exec<EventRow>("SELECT id, type, created_at, actor, tool, diff, status FROM events ORDER BY id DESC LIMIT ?", limit)
+    .toArray()
+    .map(row => ({
+      id: row.id,
+      type: row.type,
+      createdAt: row.created_at,
+      actor: row.actor,
+      tool: row.tool,
+      status: row.status,
+      fields: row.diff ? Object.keys(JSON.parse(row.diff)) : [],
+    }));
+}
@@ -0,0 +1,101 @@
+import type { Env } from "./index";
+import type { Props } from "./github-handler";
+import type { UserBookPreferences } from "./user-book-preferences";
+import { ImportError, parseLibraryExport } from "./library-import";
+import { countProfileExport, parseProfileExport } from "./profile-export";
+
+// Goodreads exports run to a few hundred bytes per book
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Reads the request body, giving up as soon as it passes the limit so a missing or understated
+ * Content-Length can't get a larger upload through.
+ * @returns The body, or null if it's larger than MAX_UPLOAD_BYTES.
+ */
+async function readUpload(request: Request): Promise<Uint8Array | null> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_UPLOAD_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * Upload route for Goodreads and StoryGraph CSV exports, for files too large to paste into a chat.
+ * Sits behind the OAuth provider, so requests need the same bearer token as the MCP endpoints.
+ *
+ * POST /import?dryRun=false with the CSV as the body (text/csv) or as a "file" field in a multipart form.
+ * A JSON document from /export (application/json) restores the whole profile instead.
+ * Without dryRun=false nothing is saved and the response only previews the import.
+ */
+export const LibraryImportHandler = {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (request.method !== "POST") {
+      return Response.json({ error: "Upload a CSV export with POST" }, { status: 405, headers: { Allow: "POST" } });
+    }
+
+    const props = (ctx as ExecutionContext & { props?: Props }).props;
+    if (!props?.login) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tooLarge = () => Response.json({ error: `Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }, { status: 413 });
+    // Turn away uploads that say they're too large before reading anything
+    if (Number(request.headers.get("Content-Length") ?? 0) > MAX_UPLOAD_BYTES) return tooLarge();
+    const upload = await readUpload(request);
+    if (!upload) return tooLarge();
+
+    let body: string;
+    if (request.headers.get("Content-Type")?.startsWith("multipart/form-data")) {
+      const form = await new Response(upload, { headers: { "Content-Type": request.headers.get("Content-Type") as string } }).formData();
+      const file = form.get("file");
+      if (!file || typeof file === "string") {
+        return Response.json({ error: 'Attach the export as a "file" field' }, { status: 400 });
+      }
+      body = await file.text();
+    } else {
+      body = new TextDecoder().decode(upload);
+    }
+
+    const dryRun = new URL(request.url).searchParams.get("dryRun") !== "false";
+    const userPreferencesId = env.USER_BOOK_PREFERENCES.idFromName(props.login);
+    const userPreferences = env.USER_BOOK_PREFERENCES.get(userPreferencesId) as DurableObjectStub<UserBookPreferences>;
+    const context = { actor: props.login, tool: "import-upload" };
+
+    if (request.headers.get("Content-Type")?.startsWith("application/json")) {
+      const result = parseProfileExport(body);
+      if ("error" in result) return Response.json({ error: result.error }, { status: 400 });
+      if (!dryRun) await userPreferences.restoreProfile(result.profile, context);
+      return Response.json({ dryRun, restored: countProfileExport(result.profile) });
+    }
+
+    let parsed: ReturnType<typeof parseLibraryExport>;
+    try {
+      parsed = parseLibraryExport(body);
+    } catch (error) {
+      if (error instanceof ImportError) return Response.json({ error: error.message }, { status: 400 });
+      throw error;
+    }
+
+    const report = await userPreferences.importLibrary(parsed.format, parsed.rows, dryRun, context);
+
+    return Response.json({ dryRun, ...report });
+  },
+};
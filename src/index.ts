@@ -1,18 +1,92 @@
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { GitHubHandler } from "./github-handler";
-import { DurableObject } from "cloudflare:workers";
+import {
+  BookPreferences,
+  CurrentlyReadingBook,
+  DidNotFinishBook,
+  ReadBook,
+  ShelvedBook,
+  createEmptyPreferences,
+} from "./preferences";
+import { UserBookPreferences } from "./user-book-preferences";
+import { ReadingGroup } from "./reading-group";
+import { ReadingGroupInfo, createGroupId, parseInviteCode } from "./groups";
+import {
+  GROUP_RECOMMENDATION_COUNT,
+  MAX_GROUP_RECOMMENDATION_COUNT,
+  SharingMember,
+  describeGroupExclusion,
+  describeMemberFit,
+  groupMemberData,
+  mergeGroupPreferences,
+} from "./group-recommendations";
+import { ChangeContext, HISTORY_RETENTION_DAYS } from "./history";
+import { findNameIndex, suggestMatches } from "./matching";
+import {
+  GENRE_TAXONOMY,
+  describeGenre,
+  genreChildren,
+  resolveGenre,
+  rootGenres,
+  suggestGenresFor,
+  suggestRelatedGenres,
+} from "./genres";
+import { createWorkId, isSameAuthor, isSameBook, isSameTitle, mergeDuplicateAuthors, mergeDuplicateBooks, normalizeIsbn } from "./book-identity";
+import { GoalProgress, Reminder, describeGoalProgress } from "./goals";
+import { HIGH_RATING, LOW_RATING, ReadingStats, computeReadingStats } from "./stats";
+import { SeriesProgress, computeSeriesProgress, parseSeriesFromTitle } from "./series";
+import { ImportError, formatImportReport, parseLibraryExport } from "./library-import";
+import { LibraryImportHandler } from "./import-handler";
+import { ProfileExportHandler } from "./export-handler";
+import { countProfileExport, parseProfileExport, renderExport } from "./profile-export";
+import { NewQuote, Quote, parseKindleClippings } from "./quotes";
+import {
+  DEFAULT_SNOOZE_DAYS,
+  MAX_RECOMMENDATION_COUNT,
+  RECOMMENDATION_COUNT,
+  Recommendation,
+  RecommendationPrompt,
+  RecommendationRequest,
+  RecommendationStatus,
+  describeRecommendationRequest,
+  generateRecommendations,
+  recommendationRequestData,
+} from "./recommendations";
+import { RULES_RECOMMENDER, createRecommender } from "./recommenders";
+import { CachedRecommendations, recommendationCacheKey } from "./recommendation-cache";
+import { MAX_TEXT_LENGTHS, findSuspiciousEntries, sanitizeText } from "./sanitize";
+import {
+  CatalogBook,
+  CatalogMatch,
+  MAX_SIMILAR_BOOKS,
+  SIMILAR_BOOKS_COUNT,
+  describeCatalogBook,
+  describeCatalogBooks,
+  findCatalogBook,
+  findCatalogCandidates,
+  findSimilarCandidates,
+  getCatalogIndex,
+  similarityReasons,
+} from "./catalog";
 
-interface Env {
+export { UserBookPreferences, ReadingGroup };
+
+export interface Env {
   GITHUB_CLIENT_ID: string;
   GITHUB_CLIENT_SECRET: string;
   COOKIE_ENCRYPTION_KEY: string;
   OAUTH_KV: KVNamespace;
   MCP_OBJECT: DurableObjectNamespace;
   USER_BOOK_PREFERENCES: DurableObjectNamespace;
+  READING_GROUPS: DurableObjectNamespace<ReadingGroup>;
   AI: any;
+  CATALOG_INDEX?: Vectorize; // Optional; declared in wrangler.jsonc, and the catalog falls back to an in-memory index without it
+  RECOMMENDERS?: string; // Comma-separated Workers AI models and "rules", tried in order
 }
 
 // User authentication context that will be passed to MCP agent
@@ -24,55 +98,282 @@ export type Props = {
   githubId: string;
 };
 
-// Book preferences state stored per user
-interface BookPreferences {
-  userName: string;
-  favoriteGenres: string[];
-  favoriteAuthors: string[];
-  booksRead: Array<{
-    title: string;
-    author: string;
-    dateAdded: string;
-  }>;
-  dislikedBooks: Array<{
-    title: string;
-    author: string;
-    dateAdded: string;
-  }>;
-  dislikedAuthors: string[];
+// Shelves a book can be moved between, mapped to where they live in BookPreferences
+const SHELVES = {
+  "want-to-read": "wantToRead",
+  "currently-reading": "currentlyReading",
+  "did-not-finish": "didNotFinish",
+  "read": "booksRead",
+} as const;
+
+type Shelf = keyof typeof SHELVES;
+
+const SHELF_NAMES = Object.keys(SHELVES) as [Shelf, ...Shelf[]];
+
+// Friendly names for preference fields shown in change history
+const HISTORY_FIELD_LABELS: Record<string, string> = {
+  favoriteGenres: "favorite genres",
+  genreWording: "genre wording",
+  favoriteAuthors: "favorite authors",
+  booksRead: "books read",
+  dislikedBooks: "disliked books",
+  dislikedAuthors: "disliked authors",
+  wantToRead: "want-to-read shelf",
+  currentlyReading: "currently-reading shelf",
+  didNotFinish: "did-not-finish shelf",
+};
+
+// Book lists that can be edited directly, mapped to where they live in BookPreferences
+const BOOK_LISTS = {
+  read: "booksRead",
+  disliked: "dislikedBooks",
+} as const;
+
+// Author lists, mapped to where they live in BookPreferences
+const AUTHOR_LISTS = {
+  favorite: "favoriteAuthors",
+  disliked: "dislikedAuthors",
+} as const;
+
+// Look up a book by ISBN, or by title and author allowing for spelling variants ("Hobbit, The", "JRR Tolkien")
+function findBookIndex(books: Array<{ title: string; author: string; isbn?: string }>, title: string, author: string, isbn?: string): number {
+  return books.findIndex(book => isSameBook(book, { title, author, isbn }));
 }
 
-// Durable Object class for storing user book preferences
-export class UserBookPreferences extends DurableObject {
-  private preferences: BookPreferences | null = null;
+// Look up a genre by its name or anything that maps onto it in the taxonomy ("sci-fi" finds "science fiction")
+function findGenreIndex(genres: string[], genre: string): number {
+  const index = findNameIndex(genres, genre);
+  if (index !== -1) return index;
+  const match = resolveGenre(genre);
+  return match ? genres.indexOf(match.genre) : -1;
+}
 
-  constructor(state: DurableObjectState, env: Env) {
-    super(state, env);
+// The canonical name for a genre, or the cleaned-up text if it's outside the taxonomy
+function canonicalGenre(genre: string): string {
+  return resolveGenre(genre)?.genre ?? genre.toLowerCase().trim();
+}
+
+// Look up an author allowing for name variants ("Tolkien, J.R.R." vs "J. R. R. Tolkien")
+function findAuthorIndex(authors: string[], author: string): number {
+  return authors.findIndex(entry => isSameAuthor(entry, author));
+}
+
+// Parse a user-supplied date into an ISO string, or null if it isn't a valid date
+function parseDate(input: string): string | null {
+  const date = new Date(input.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Parse the end of a date range inclusively, so "2024" or "2024-03" cover the whole year or month
+function parseRangeEnd(input: string): string | null {
+  const text = input.trim();
+  const start = parseDate(text);
+  if (!start) return null;
+  const end = new Date(start);
+  if (/^\d{4}$/.test(text)) end.setUTCFullYear(end.getUTCFullYear() + 1);
+  else if (/^\d{4}-\d{2}$/.test(text)) end.setUTCMonth(end.getUTCMonth() + 1);
+  else if (/^\d{4}-\d{2}-\d{2}$/.test(text)) end.setUTCDate(end.getUTCDate() + 1);
+  else return start;
+  return new Date(end.getTime() - 1).toISOString();
+}
+
+// Fill in series details from explicit arguments, falling back to a title like "Guards! Guards! (Discworld #8)"
+function applySeries(book: ShelvedBook, series?: string, seriesPosition?: number) {
+  const parsed = parseSeriesFromTitle(book.title);
+  const name = series?.trim() || parsed?.series;
+  const position = seriesPosition ?? (name === parsed?.series ? parsed?.position : undefined);
+  if (name) book.series = name;
+  if (position !== undefined) book.seriesPosition = position;
+}
+
+// Find which shelf (if any) a book is currently on
+function findOnShelves(preferences: BookPreferences, title: string, author: string, isbn?: string): { shelf: Shelf; index: number } | null {
+  for (const shelf of SHELF_NAMES) {
+    const index = findBookIndex(preferences[SHELVES[shelf]] || [], title, author, isbn);
+    if (index !== -1) return { shelf, index };
   }
+  return null;
+}
 
-  async getPreferences(): Promise<BookPreferences> {
-    if (!this.preferences) {
-      this.preferences = await this.ctx.storage.get<BookPreferences>("preferences");
-      
-      if (!this.preferences) {
-        this.preferences = {
-          userName: "",
-          favoriteGenres: [],
-          favoriteAuthors: [],
-          booksRead: [],
-          dislikedBooks: [],
-          dislikedAuthors: [],
-        };
-        await this.ctx.storage.put("preferences", this.preferences);
-      }
-    }
-    return this.preferences;
+function formatProgress(book: CurrentlyReadingBook): string {
+  if (book.currentPage !== undefined && book.totalPages) {
+    return `page ${book.currentPage} of ${book.totalPages} (${Math.round((book.currentPage / book.totalPages) * 100)}%)`;
+  }
+  if (book.currentPage !== undefined) return `page ${book.currentPage}`;
+  if (book.percentComplete !== undefined) return `${book.percentComplete}%`;
+  return "just started";
+}
+
+// "Did you mean" hint for a lookup that found nothing
+function didYouMean(suggestions: string[]): string {
+  if (suggestions.length === 0) return "";
+  return `\n\nDid you mean: ${suggestions.join(", ")}?`;
+}
+
+function bookLabel(book: { title: string; author: string }): string {
+  return `"${book.title}" by ${book.author}`;
+}
+
+// Suggest books from a list whose title and author look like what was asked for
+function suggestBooks(books: Array<{ title: string; author: string }>, title: string, author: string): string[] {
+  const labels = books.map(book => `${book.title} by ${book.author}`);
+  const byTitle = suggestMatches(title, books.map(book => book.title));
+  const byLabel = suggestMatches(`${title} by ${author}`, labels);
+  const suggestions = new Set([
+    ...byLabel.map(label => bookLabel(books[labels.indexOf(label)])),
+    ...byTitle.map(match => bookLabel(books.find(book => book.title === match)!)),
+  ]);
+  return [...suggestions].slice(0, 3);
+}
+
+function formatStars(rating?: number): string {
+  if (!rating) return "";
+  return ` ${"★".repeat(rating)}${"☆".repeat(5 - rating)}`;
+}
+
+function formatReadBook(book: ReadBook): string {
+  const reread = book.rereadCount ? ` (reread ${book.rereadCount}x)` : "";
+  return `• "${book.title}" by ${book.author}${formatStars(book.rating)}${reread}`;
+}
+
+function formatGoalProgress(progress: GoalProgress): string {
+  const { goal } = progress;
+  const unit = goal.metric;
+  const pace = goal.metric === "books" ? progress.requiredWeeklyPace.toFixed(1) : String(Math.ceil(progress.requiredWeeklyPace));
+  const lines = [`**${goal.target} ${unit} per ${goal.period}** — ${describeGoalProgress(progress)}`];
+  if (progress.status !== "complete") {
+    lines.push(`• On your current pace you'll finish around ${Math.round(progress.projected)} ${unit} by the end of ${progress.periodLabel}`);
+    lines.push(`• To hit the target: about ${pace} ${unit} a week from now on`);
+  }
+  if (progress.booksMissingPages > 0) {
+    lines.push(`• ${progress.booksMissingPages} book(s) this ${goal.period} have no page count; add one with updateBookRead`);
   }
+  return lines.join('\n');
+}
+
+function formatReadingStats(stats: ReadingStats): string {
+  const range = stats.range.from || stats.range.to
+    ? ` (${stats.range.from?.slice(0, 10) ?? "start"} to ${stats.range.to?.slice(0, 10) ?? "today"})`
+    : "";
+  const counts = (entries: Array<{ name: string; count: number }>, limit: number) =>
+    entries.length > 0 ? entries.slice(0, limit).map(entry => `${entry.name} (${entry.count})`).join(", ") : "None yet";
+  const streak = (value: ReadingStats["longestStreak"]) =>
+    value ? `${value.months} month${value.months === 1 ? "" : "s"} (${value.from} to ${value.to})` : "None";
+  const years = Object.entries(stats.booksPerYear).sort(([a], [b]) => b.localeCompare(a));
+  const months = Object.entries(stats.booksPerMonth).sort(([a], [b]) => b.localeCompare(a)).slice(0, 12);
+
+  return `**Reading Stats${range}**
+
+**Books Read:** ${stats.totalBooks}${stats.totalPages > 0 ? ` (${stats.totalPages.toLocaleString("en-US")} pages logged)` : ""}
+**Average Rating:** ${stats.averageRating !== null ? `${stats.averageRating.toFixed(2)}★ across ${stats.ratedBooks} rated books` : "No ratings yet"}
+**Ratings:** ${[5, 4, 3, 2, 1].map(stars => `${stars}★ ${stats.ratingDistribution[stars]}`).join(" · ")}
+**Liked vs Disliked:** ${stats.liked} liked, ${stats.disliked} disliked${stats.likedRatio !== null ? ` (${Math.round(stats.likedRatio * 100)}% liked)` : ""}
+
+**By Year:** ${years.length > 0 ? years.map(([year, count]) => `${year}: ${count}`).join(", ") : "None yet"}
+**Recent Months:** ${months.length > 0 ? months.map(([month, count]) => `${month}: ${count}`).join(", ") : "None yet"}
+
+**Top Authors:** ${counts(stats.topAuthors, 5)}
+**Genres:** ${counts(stats.genres, 8)}
+**Broad Genres:** ${counts(stats.topLevelGenres, 6)}
+
+**Longest Streak:** ${streak(stats.longestStreak)}
+**Current Streak:** ${streak(stats.currentStreak)}`;
+}
+
+function formatVolumes(positions: number[]): string {
+  return positions.map(position => `#${position}`).join(", ");
+}
+
+// How long ago a timestamp was, roughly: "just now", "5 minutes ago", "2 hours ago"
+function formatAge(timestamp: string, now = Date.now()): string {
+  const minutes = Math.floor((now - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? "minute" : "minutes"} ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} ${hours === 1 ? "hour" : "hours"} ago`;
+}
+
+// Sends MCP progress notifications for a tool call, if the client asked for them with a progress token
+function progressReporter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): (progress: number, total: number | undefined, message: string) => void {
+  const progressToken = extra._meta?.progressToken;
+  return (progress, total, message) => {
+    if (progressToken === undefined) return;
+    extra
+      .sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } })
+      .catch(error => console.warn("Couldn't send progress notification:", error));
+  };
+}
+
+function formatRecommendation(book: Recommendation, index: number): string {
+  const details = [book.year ? String(book.year) : null, book.genres.length > 0 ? book.genres.join(", ") : null].filter(Boolean);
+  return `${index + 1}. **${book.title}** by ${book.author}${details.length > 0 ? ` (${details.join("; ")})` : ""} [#${book.id}]
+   ${book.reason}`;
+}
+
+const RECOMMENDATION_STATUS_LABELS: Record<RecommendationStatus, string> = {
+  pending: "no response yet",
+  "want-to-read": "added to want-to-read",
+  "not-interested": "not interested",
+  "already-read": "already read",
+  snoozed: "snoozed",
+};
+
+function formatGroupMembers(group: ReadingGroupInfo): string {
+  return group.members
+    .map(member => `• ${member.name} (${member.login})${member.role === "owner" ? ", owner" : ""}: ${member.sharing ? "sharing their profile" : "not sharing yet"}`)
+    .join('\n');
+}
+
+function signInToUseGroups() {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Reading groups need you to be signed in with GitHub, so members can tell each other apart.`,
+      },
+    ],
+  };
+}
 
-  async updatePreferences(newPreferences: BookPreferences): Promise<void> {
-    this.preferences = newPreferences;
-    await this.ctx.storage.put("preferences", this.preferences);
+function notInGroup(groupId: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `You're not a member of a group with ID "${groupId}". Use getReadingGroups to see your groups.`,
+      },
+    ],
+  };
+}
+
+function formatRecommendationHistoryEntry(recommendation: Recommendation): string {
+  let status = RECOMMENDATION_STATUS_LABELS[recommendation.status];
+  if (recommendation.status === "snoozed" && recommendation.snoozedUntil) status += ` until ${recommendation.snoozedUntil.slice(0, 10)}`;
+  if (recommendation.feedbackReason) status += `: ${recommendation.feedbackReason}`;
+  return `• [#${recommendation.id}] "${recommendation.title}" by ${recommendation.author} (${status})`;
+}
+
+function formatSeriesProgress(progress: SeriesProgress): string {
+  const lines = [`**${progress.series}** by ${progress.author}`];
+  if (progress.read.length > 0) lines.push(`• Read: ${formatVolumes(progress.read)}`);
+  if (progress.reading.length > 0) lines.push(`• Reading: ${formatVolumes(progress.reading)}`);
+  if (progress.abandoned.length > 0) lines.push(`• Gave up on: ${formatVolumes(progress.abandoned)}`);
+  if (progress.gaps.length > 0) lines.push(`• Skipped: ${formatVolumes(progress.gaps)}`);
+  if (progress.nextBook) {
+    lines.push(`• Next up: #${progress.nextPosition} "${progress.nextBook.title}" (on your ${progress.nextShelf} shelf)`);
+  } else if (progress.nextCatalogBook) {
+    lines.push(`• Next up: #${progress.nextPosition} "${progress.nextCatalogBook.title}"`);
+  } else if (!progress.dropped && progress.reading.length === 0) {
+    lines.push(`• Caught up: no later volume on your shelves. Add the next one to your want-to-read shelf to track it.`);
   }
+  return lines.join('\n');
+}
+
+function formatQuote(quote: Quote): string {
+  const where = quote.page ? `, p. ${quote.page}` : quote.location ? `, loc. ${quote.location}` : "";
+  return `> ${quote.text.replace(/\n/g, "\n> ")}
+— ${quote.title} by ${quote.author}${where}${quote.favorite ? " ⭐" : ""} [#${quote.id}]${quote.note ? `
+*Note:* ${quote.note}` : ""}`;
 }
 
 export class MyMCP extends McpAgent<Env, never, Props> {
@@ -98,29 +399,48 @@ export class MyMCP extends McpAgent<Env, never, Props> {
 
   // Get the user's book preferences DO
   get userPreferences(): DurableObjectStub<UserBookPreferences> {
-    const userId = this.props?.login || 'anonymous';
+    return this.preferencesFor(this.props?.login || 'anonymous');
+  }
+
+  // Get another user's book preferences DO, for reading group members
+  private preferencesFor(userId: string): DurableObjectStub<UserBookPreferences> {
     const userPreferencesId = this.env.USER_BOOK_PREFERENCES.idFromName(userId);
     return this.env.USER_BOOK_PREFERENCES.get(userPreferencesId);
   }
 
+  // Get a reading group's DO by the group's ID
+  private readingGroup(groupId: string): DurableObjectStub<ReadingGroup> {
+    return this.env.READING_GROUPS.get(this.env.READING_GROUPS.idFromName(groupId));
+  }
+
   private async getUserPreferences(): Promise<BookPreferences> {
     try {
       return await this.userPreferences.getPreferences();
     } catch (error) {
       console.error("Error getting user preferences:", error);
-      return {
-        userName: "",
-        favoriteGenres: [],
-        favoriteAuthors: [],
-        booksRead: [],
-        dislikedBooks: [],
-        dislikedAuthors: [],
-      };
+      return createEmptyPreferences();
     }
   }
 
-  private async updateUserPreferences(preferences: BookPreferences): Promise<void> {
-    await this.userPreferences.updatePreferences(preferences);
+  // Save preferences, recording which tool made the change so it can be undone
+  private async updateUserPreferences(preferences: BookPreferences, tool: string): Promise<void> {
+    await this.userPreferences.updatePreferences(preferences, this.changeContext(tool));
+  }
+
+  private changeContext(tool: string): ChangeContext {
+    return { actor: this.props?.login || 'anonymous', tool };
+  }
+
+  // Reminders queued by the preferences DO's alarm since the user's last session
+  private reminders: Reminder[] = [];
+
+  private async takeReminders(): Promise<Reminder[]> {
+    try {
+      return await this.userPreferences.takeReminders();
+    } catch (error) {
+      console.error("Error getting reminders:", error);
+      return [];
+    }
   }
 
   async init() {
@@ -129,11 +449,19 @@ export class MyMCP extends McpAgent<Env, never, Props> {
       - name: ${this.props?.name}
       - githubId: ${this.props?.githubId}`);
 
+    // Surface any reading goal nudges to the client as server instructions
+    this.reminders = await this.takeReminders();
+
     // Initialize MCP server
-    this.server = new McpServer({
-      name: "BestReads Book Recommendations",
-      version: "1.0.0",
-    });
+    this.server = new McpServer(
+      {
+        name: "BestReads Book Recommendations",
+        version: "1.0.0",
+      },
+      this.reminders.length > 0
+        ? { instructions: `Mention these reading goal reminders to the user:\n${this.reminders.map(reminder => `- ${reminder.message}`).join("\n")}` }
+        : undefined
+    );
 
     // Initialize username from authentication context
     const userName = this.props?.name || this.props?.login || "Book Lover";
@@ -141,7 +469,7 @@ export class MyMCP extends McpAgent<Env, never, Props> {
     const currentPreferences = await this.getUserPreferences();
     if (currentPreferences.userName !== userName) {
       currentPreferences.userName = userName;
-      await this.updateUserPreferences(currentPreferences);
+      await this.updateUserPreferences(currentPreferences, "init");
     }
 
     console.log(`Book Preferences agent initialized for ${userName}`);
@@ -163,6 +491,18 @@ export class MyMCP extends McpAgent<Env, never, Props> {
       const booksRead = preferences.booksRead || [];
       const dislikedBooks = preferences.dislikedBooks || [];
       const dislikedAuthors = preferences.dislikedAuthors || [];
+      const wantToRead = preferences.wantToRead || [];
+      const currentlyReading = preferences.currentlyReading || [];
+      const didNotFinish = preferences.didNotFinish || [];
+      
+      // Highest rated first, most recently added breaking ties
+      const topRated = booksRead
+        .filter(book => (book.rating ?? 0) >= HIGH_RATING)
+        .reverse()
+        .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
+      const lowRated = booksRead.filter(book => book.rating !== undefined && book.rating <= LOW_RATING);
+      // Entries that read like instructions to the model, which they can check and remove
+      const suspicious = findSuspiciousEntries(preferences);
       
       return {
         content: [
@@ -175,10 +515,13 @@ export class MyMCP extends McpAgent<Env, never, Props> {
 **Favorite Authors:** ${favoriteAuthors.length > 0 ? favoriteAuthors.join(", ") : "None yet"}
 
 **Books Read:** ${booksRead.length} books
-${booksRead.length > 0 ? booksRead.slice(-3).map(book => 
-  `• "${book.title}" by ${book.author}`
-).join('\n') : "None yet"}
-
+${booksRead.length > 0 ? booksRead.slice(-3).map(formatReadBook).join('\n') : "None yet"}
+${topRated.length > 0 ? `
+**Top Rated:**
+${topRated.slice(0, 5).map(formatReadBook).join('\n')}
+` : ""}${lowRated.length > 0 ? `
+**Didn't Enjoy (rated ${LOW_RATING}★ or lower):** ${lowRated.map(book => `"${book.title}"`).join(", ")}
+` : ""}
 **Disliked Books:** ${dislikedBooks.length} books
 ${dislikedBooks.length > 0 ? dislikedBooks.slice(-2).map(book => 
   `• "${book.title}" by ${book.author}`
@@ -186,8 +529,24 @@ ${dislikedBooks.length > 0 ? dislikedBooks.slice(-2).map(book =>
 
 **Disliked Authors:** ${dislikedAuthors.length > 0 ? dislikedAuthors.join(", ") : "None yet"}
 
-**GitHub User:** ${this.props?.login || 'Anonymous'}
+**Currently Reading:** ${currentlyReading.length > 0 ? `
+${currentlyReading.map(book => `• "${book.title}" by ${book.author} - ${formatProgress(book)}`).join('\n')}` : "Nothing right now"}
 
+**Want to Read:** ${wantToRead.length} books
+${wantToRead.length > 0 ? wantToRead.slice(-3).map(book => 
+  `• "${book.title}" by ${book.author}`
+).join('\n') : "None yet"}
+
+**Did Not Finish:** ${didNotFinish.length > 0 ? didNotFinish.map(book => `"${book.title}"`).join(", ") : "None"}
+
+**GitHub User:** ${this.props?.login || 'Anonymous'}
+${this.reminders.length > 0 ? `
+**Reminders:**
+${this.reminders.map(reminder => `• ${reminder.message}`).join('\n')}
+` : ""}${suspicious.length > 0 ? `
+**⚠️ Possible prompt injection:** These entries read like instructions to the recommendation model rather than books, authors or notes. They're only ever passed to it as data, but if you didn't write them, remove or correct them.
+${suspicious.map(entry => `• ${entry.field}: "${entry.value.length > 80 ? `${entry.value.slice(0, 80)}…` : entry.value}" (${entry.reason})`).join('\n')}
+` : ""}
 Use the available tools to add your preferences for better recommendations.`,
           },
         ],
@@ -196,20 +555,21 @@ Use the available tools to add your preferences for better recommendations.`,
 
     this.server.tool(
       "addGenre",
-      "Add a book genre you enjoy reading",
+      "Add a book genre you enjoy reading. Common names and synonyms (e.g. 'sci-fi', 'whodunit') map onto a built-in genre list",
       {
         genre: z.string().describe("A book genre you like (e.g., 'science fiction', 'mystery', 'romance')"),
       },
       async ({ genre }) => {
         const preferences = await this.getUserPreferences();
-        const normalizedGenre = genre.toLowerCase().trim();
+        const match = resolveGenre(genre);
+        const normalizedGenre = match?.genre ?? genre.toLowerCase().trim();
         
         if (preferences.favoriteGenres.includes(normalizedGenre)) {
           return {
             content: [
               {
                 type: "text",
-                text: `"${genre}" is already in your favorites!
+                text: `"${normalizedGenre}" is already in your favorites!
 
 Current genres: ${preferences.favoriteGenres.join(", ")}`,
               },
@@ -218,17 +578,25 @@ Current genres: ${preferences.favoriteGenres.join(", ")}`,
         }
         
         preferences.favoriteGenres.push(normalizedGenre);
-        await this.updateUserPreferences(preferences);
+        // Keep the user's own wording when it differs from the canonical name
+        if (genre.trim().toLowerCase() !== normalizedGenre) {
+          preferences.genreWording = { ...preferences.genreWording, [normalizedGenre]: genre.trim() };
+        }
+        await this.updateUserPreferences(preferences, "addGenre");
         
         const encouragement = preferences.favoriteGenres.length === 1 
           ? "Great start! Add more genres to improve recommendations."
           : `Perfect! With ${preferences.favoriteGenres.length} genres, I'm learning your taste.`;
         
+        const matchNote = match
+          ? match.genre !== genre.trim().toLowerCase() ? `\n\nSaved "${genre}" as **${describeGenre(match.genre)}**.` : ""
+          : `\n\n"${normalizedGenre}" isn't in the built-in genre list, so I saved it as a custom genre.${didYouMean(suggestGenresFor(genre, 3).map(suggestion => `"${suggestion}"`))}`;
+        
         return {
           content: [
             {
               type: "text",
-              text: `Added "${genre}" to your favorites!
+              text: `Added "${normalizedGenre}" to your favorites!${matchNote}
 
 **Your favorite genres:** ${preferences.favoriteGenres.join(", ")}
 
@@ -250,12 +618,13 @@ ${encouragement}`,
         const normalizedAuthor = author.trim();
         const favoriteAuthors = preferences.favoriteAuthors || [];
         
-        if (favoriteAuthors.includes(normalizedAuthor)) {
+        const existingIndex = findAuthorIndex(favoriteAuthors, normalizedAuthor);
+        if (existingIndex !== -1) {
           return {
             content: [
               {
                 type: "text",
-                text: `"${author}" is already in your favorite authors!
+                text: `"${favoriteAuthors[existingIndex]}" is already in your favorite authors!
 
 Current favorite authors: ${favoriteAuthors.join(", ")}`,
               },
@@ -265,7 +634,7 @@ Current favorite authors: ${favoriteAuthors.join(", ")}`,
         
         favoriteAuthors.push(normalizedAuthor);
         preferences.favoriteAuthors = favoriteAuthors;
-        await this.updateUserPreferences(preferences);
+        await this.updateUserPreferences(preferences, "addFavoriteAuthor");
         
         const encouragement = favoriteAuthors.length === 1 
           ? "Great start! Add more authors to improve recommendations."
@@ -288,53 +657,265 @@ ${encouragement}`,
 
     this.server.tool(
       "addBookRead",
-      "Add a book you have read",
+      "Add a book you have read, optionally with a rating and review",
       {
         title: z.string().describe("The book title"),
         author: z.string().describe("The book author"), 
+        rating: z.number().int().min(1).max(5).optional().describe("Your rating from 1 to 5 stars"),
+        review: z.string().optional().describe("Your thoughts on the book"),
+        dateFinished: z.string().optional().describe("When you finished the book (e.g., '2024-03-15'). Defaults to today"),
+        isbn: z.string().optional().describe("The book's ISBN-10 or ISBN-13, if you know it"),
+        pages: z.number().int().min(1).optional().describe("How many pages the book has, for pages-based reading goals"),
+        genre: z.string().optional().describe("The book's genre (e.g., 'cozy mystery'), used in your reading stats"),
+        series: z.string().optional().describe("The series the book belongs to (e.g., 'Discworld'). Read from titles like 'Mort (Discworld #4)' if left out"),
+        seriesPosition: z.number().min(0).optional().describe("The book's number in the series"),
       },
-      async ({ title, author }) => {
+      async ({ title, author, rating, review, dateFinished, isbn, pages, genre, series, seriesPosition }) => {
         const preferences = await this.getUserPreferences();
         
         const booksRead = preferences.booksRead || [];
         
-        const bookExists = booksRead.some(
-          book => book.title.toLowerCase() === title.toLowerCase() && 
-                  book.author.toLowerCase() === author.toLowerCase()
-        );
+        const normalizedIsbn = isbn ? normalizeIsbn(isbn) : null;
+        if (isbn && !normalizedIsbn) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${isbn}" isn't a valid ISBN-10 or ISBN-13. Check the digits, or leave the ISBN out.`,
+              },
+            ],
+          };
+        }
+        
+        const existingIndex = findBookIndex(booksRead, title, author, normalizedIsbn || undefined);
+        if (existingIndex !== -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${bookLabel(booksRead[existingIndex])} is already in your reading list!
+
+Use updateBookRead to change its rating or review, or logReread if you've read it again.`,
+              },
+            ],
+          };
+        }
         
-        if (bookExists) {
+        const finished = dateFinished ? parseDate(dateFinished) : null;
+        if (dateFinished && !finished) {
           return {
             content: [
               {
                 type: "text",
-                text: `"${title}" by ${author} is already in your reading list!`,
+                text: `"${dateFinished}" isn't a date I understand. Try a format like 2024-03-15.`,
               },
             ],
           };
         }
         
-        const bookEntry = {
+        // Finishing a book takes it off whichever shelf it was waiting on, keeping its identity
+        const shelved = findOnShelves(preferences, title, author, normalizedIsbn || undefined);
+        const [shelvedBook] = shelved ? preferences[SHELVES[shelved.shelf]].splice(shelved.index, 1) : [];
+        
+        const now = new Date().toISOString();
+        const bookEntry: ReadBook = {
           title,
           author,
-          dateAdded: new Date().toISOString(),
+          dateAdded: now,
+          dateFinished: finished || now,
+          workId: shelvedBook?.workId || createWorkId(),
         };
+        if (normalizedIsbn || shelvedBook?.isbn) bookEntry.isbn = normalizedIsbn || shelvedBook?.isbn;
+        if (rating !== undefined) bookEntry.rating = rating;
+        if (review) bookEntry.review = review.trim();
+        const shelvedPages = (shelvedBook as CurrentlyReadingBook | undefined)?.totalPages;
+        if (pages || shelvedPages) bookEntry.pages = pages || shelvedPages;
+        if (genre || shelvedBook?.genre) bookEntry.genre = genre ? canonicalGenre(genre) : shelvedBook?.genre;
+        applySeries(bookEntry, series ?? shelvedBook?.series, seriesPosition ?? shelvedBook?.seriesPosition);
         
         booksRead.push(bookEntry);
         preferences.booksRead = booksRead;
-        await this.updateUserPreferences(preferences);
+        await this.updateUserPreferences(preferences, "addBookRead");
         
         return {
           content: [
             {
               type: "text",
-              text: `Added "${title}" by ${author} to your reading list!
+              text: `Added "${title}" by ${author}${formatStars(rating)} to your reading list!
 
 **Total books read:** ${booksRead.length}
 **Recent reads:** 
-${booksRead.slice(-3).map(book => 
-  `• "${book.title}" by ${book.author}`
-).join('\n')}`,
+${booksRead.slice(-3).map(formatReadBook).join('\n')}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "updateBookRead",
+      "Set or change the rating, review, finished date, reread count, page count or genre of a book you have read",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        rating: z.number().int().min(1).max(5).optional().describe("Your rating from 1 to 5 stars"),
+        review: z.string().optional().describe("Your thoughts on the book (an empty string removes the review)"),
+        dateFinished: z.string().optional().describe("When you finished the book (e.g., '2024-03-15')"),
+        rereadCount: z.number().int().min(0).optional().describe("How many times you've reread the book"),
+        isbn: z.string().optional().describe("The book's ISBN-10 or ISBN-13"),
+        pages: z.number().int().min(1).optional().describe("How many pages the book has"),
+        genre: z.string().optional().describe("The book's genre"),
+      },
+      async ({ title, author, rating, review, dateFinished, rereadCount, isbn, pages, genre }) => {
+        const preferences = await this.getUserPreferences();
+        const booksRead = preferences.booksRead || [];
+        const index = findBookIndex(booksRead, title, author);
+        
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} isn't in your reading list yet. Use addBookRead to add it first.`,
+              },
+            ],
+          };
+        }
+        
+        const finished = dateFinished ? parseDate(dateFinished) : null;
+        if (dateFinished && !finished) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${dateFinished}" isn't a date I understand. Try a format like 2024-03-15.`,
+              },
+            ],
+          };
+        }
+        
+        const normalizedIsbn = isbn ? normalizeIsbn(isbn) : null;
+        if (isbn && !normalizedIsbn) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${isbn}" isn't a valid ISBN-10 or ISBN-13. Check the digits and try again.`,
+              },
+            ],
+          };
+        }
+        
+        const book = booksRead[index];
+        const changes: string[] = [];
+        if (rating !== undefined) {
+          book.rating = rating;
+          changes.push(`rating:${formatStars(rating)}`);
+        }
+        if (review !== undefined) {
+          if (review.trim()) {
+            book.review = review.trim();
+            changes.push("review updated");
+          } else {
+            delete book.review;
+            changes.push("review removed");
+          }
+        }
+        if (finished) {
+          book.dateFinished = finished;
+          changes.push(`finished ${finished.slice(0, 10)}`);
+        }
+        if (rereadCount !== undefined) {
+          book.rereadCount = rereadCount;
+          changes.push(`reread ${rereadCount}x`);
+        }
+        if (normalizedIsbn) {
+          book.isbn = normalizedIsbn;
+          changes.push(`ISBN ${normalizedIsbn}`);
+        }
+        if (pages !== undefined) {
+          book.pages = pages;
+          changes.push(`${pages} pages`);
+        }
+        if (genre) {
+          book.genre = canonicalGenre(genre);
+          changes.push(`genre ${book.genre}`);
+        }
+        
+        if (changes.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Nothing to update for "${book.title}". Provide a rating, review, dateFinished, rereadCount, isbn, pages or genre.`,
+              },
+            ],
+          };
+        }
+        
+        preferences.booksRead = booksRead;
+        await this.updateUserPreferences(preferences, "updateBookRead");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Updated "${book.title}" by ${book.author}: ${changes.join(", ")}.${book.review ? `
+
+**Your review:** ${book.review}` : ""}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "logReread",
+      "Record that you've read a book again",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        dateFinished: z.string().optional().describe("When you finished this reread (e.g., '2024-03-15'). Defaults to today"),
+      },
+      async ({ title, author, dateFinished }) => {
+        const preferences = await this.getUserPreferences();
+        const booksRead = preferences.booksRead || [];
+        const index = findBookIndex(booksRead, title, author);
+        
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} isn't in your reading list yet. Use addBookRead to add it first.`,
+              },
+            ],
+          };
+        }
+        
+        const finished = dateFinished ? parseDate(dateFinished) : new Date().toISOString();
+        if (!finished) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${dateFinished}" isn't a date I understand. Try a format like 2024-03-15.`,
+              },
+            ],
+          };
+        }
+        
+        const book = booksRead[index];
+        book.rereadCount = (book.rereadCount ?? 0) + 1;
+        book.dateFinished = finished;
+        preferences.booksRead = booksRead;
+        await this.updateUserPreferences(preferences, "logReread");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Logged a reread of "${book.title}" by ${book.author}! You've now reread it ${book.rereadCount} time${book.rereadCount === 1 ? "" : "s"}.`,
             },
           ],
         };
@@ -347,35 +928,47 @@ ${booksRead.slice(-3).map(book =>
       {
         title: z.string().describe("The book title"),
         author: z.string().describe("The book author"), 
+        isbn: z.string().optional().describe("The book's ISBN-10 or ISBN-13, if you know it"),
       },
-      async ({ title, author }) => {
+      async ({ title, author, isbn }) => {
         const preferences = await this.getUserPreferences();
         const dislikedBooks = preferences.dislikedBooks || [];
-        const bookExists = dislikedBooks.some(
-          book => book.title.toLowerCase() === title.toLowerCase() && 
-                  book.author.toLowerCase() === author.toLowerCase()
-        );
         
-        if (bookExists) {
+        const normalizedIsbn = isbn ? normalizeIsbn(isbn) : null;
+        if (isbn && !normalizedIsbn) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${isbn}" isn't a valid ISBN-10 or ISBN-13. Check the digits, or leave the ISBN out.`,
+              },
+            ],
+          };
+        }
+        
+        const existingIndex = findBookIndex(dislikedBooks, title, author, normalizedIsbn || undefined);
+        if (existingIndex !== -1) {
           return {
             content: [
               {
                 type: "text",
-              text: `"${title}" by ${author} is already in your disliked books list!`,
+              text: `${bookLabel(dislikedBooks[existingIndex])} is already in your disliked books list!`,
               },
             ],
           };
         }
         
-        const bookEntry = {
+        const bookEntry: ShelvedBook = {
           title,
           author,
           dateAdded: new Date().toISOString(),
+          workId: createWorkId(),
         };
+        if (normalizedIsbn) bookEntry.isbn = normalizedIsbn;
         
         dislikedBooks.push(bookEntry);
         preferences.dislikedBooks = dislikedBooks;
-        await this.updateUserPreferences(preferences);
+        await this.updateUserPreferences(preferences, "addDislikedBook");
         
         return {
           content: [
@@ -401,12 +994,13 @@ This will help me avoid recommending similar books or this author in the future.
         const normalizedAuthor = author.trim();
         const dislikedAuthors = preferences.dislikedAuthors || [];
         
-        if (dislikedAuthors.includes(normalizedAuthor)) {
+        const existingIndex = findAuthorIndex(dislikedAuthors, normalizedAuthor);
+        if (existingIndex !== -1) {
           return {
             content: [
               {
                 type: "text",
-                text: `"${author}" is already in your disliked authors list!
+                text: `"${dislikedAuthors[existingIndex]}" is already in your disliked authors list!
 
 Current disliked authors: ${dislikedAuthors.join(", ")}`,
               },
@@ -416,7 +1010,7 @@ Current disliked authors: ${dislikedAuthors.join(", ")}`,
         
         dislikedAuthors.push(normalizedAuthor);
         preferences.dislikedAuthors = dislikedAuthors;
-        await this.updateUserPreferences(preferences);
+        await this.updateUserPreferences(preferences, "addDislikedAuthor");
         
         return {
           content: [
@@ -432,36 +1026,38 @@ This will help me avoid recommending books by this author in the future.`,
     );
 
     this.server.tool(
-      "clearPreferences",
-      "Clear all your reading preferences and start fresh",
-      {},
-      async () => {
+      "removeGenre",
+      "Remove a genre from your favorites",
+      {
+        genre: z.string().describe("The genre to remove"),
+      },
+      async ({ genre }) => {
         const preferences = await this.getUserPreferences();
-        const clearedPreferences: BookPreferences = {
-          userName: preferences.userName,
-          favoriteGenres: [],
-          favoriteAuthors: [],
-          booksRead: [],
-          dislikedBooks: [],
-          dislikedAuthors: [],
-        };
+        const index = findGenreIndex(preferences.favoriteGenres, genre);
+        
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${genre}" isn't in your favorite genres.${didYouMean(suggestMatches(genre, preferences.favoriteGenres).map(match => `"${match}"`))}`,
+              },
+            ],
+          };
+        }
         
-        await this.updateUserPreferences(clearedPreferences);
+        const [removed] = preferences.favoriteGenres.splice(index, 1);
+        const { [removed]: _removedWording, ...genreWording } = preferences.genreWording;
+        preferences.genreWording = genreWording;
+        await this.updateUserPreferences(preferences, "removeGenre");
         
         return {
           content: [
             {
               type: "text",
-              text: `🧹 **All preferences cleared for ${preferences.userName}!**
-    
-    Your reading profile has been reset:
-    • Favorite genres: cleared
-    • Favorite authors: cleared  
-    • Books read: cleared
-    • Disliked books: cleared
-    • Disliked authors: cleared
-    
-    You can start building your preferences again using the available tools.`,
+              text: `Removed "${removed}" from your favorite genres.
+
+**Your favorite genres:** ${preferences.favoriteGenres.length > 0 ? preferences.favoriteGenres.join(", ") : "None yet"}`,
             },
           ],
         };
@@ -469,78 +1065,2261 @@ This will help me avoid recommending books by this author in the future.`,
     );
 
     this.server.tool(
-      "getBookRecommendations", 
-      "Get personalized book recommendations based on your preferences",
-      {},
-      async () => {
+      "renameGenre",
+      "Rename one of your favorite genres",
+      {
+        genre: z.string().describe("The genre as it appears in your favorites"),
+        newName: z.string().describe("The new name for the genre"),
+      },
+      async ({ genre, newName }) => {
         const preferences = await this.getUserPreferences();
+        const index = findGenreIndex(preferences.favoriteGenres, genre);
+        const normalizedName = canonicalGenre(newName);
         
-        // Build contextual prompt for AI recommendations
-        let prompt = `Recommend 3 books for ${preferences.userName}. `;
-        
-        if (preferences.favoriteGenres.length > 0) {
-          prompt += `They enjoy these genres: ${preferences.favoriteGenres.join(", ")}. `;
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${genre}" isn't in your favorite genres.${didYouMean(suggestMatches(genre, preferences.favoriteGenres).map(match => `"${match}"`))}`,
+              },
+            ],
+          };
         }
         
-        if (preferences.favoriteAuthors.length > 0) {
-          prompt += `They like these authors: ${preferences.favoriteAuthors.join(", ")}. `;
+        const previous = preferences.favoriteGenres[index];
+        const duplicate = findNameIndex(preferences.favoriteGenres, normalizedName);
+        if (duplicate !== -1 && duplicate !== index) {
+          // Renaming onto an existing genre merges the two
+          preferences.favoriteGenres.splice(index, 1);
+        } else {
+          preferences.favoriteGenres[index] = normalizedName;
         }
+        const { [previous]: _previousWording, ...genreWording } = preferences.genreWording;
+        if (newName.trim().toLowerCase() !== normalizedName) genreWording[normalizedName] = newName.trim();
+        preferences.genreWording = genreWording;
+        await this.updateUserPreferences(preferences, "renameGenre");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Renamed "${previous}" to "${normalizedName}".
+
+**Your favorite genres:** ${preferences.favoriteGenres.join(", ")}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "listGenres",
+      "Browse the built-in genre list and its sub-genres",
+      {
+        genre: z.string().optional().describe("Show only this genre and its sub-genres (e.g., 'fantasy')"),
+      },
+      async ({ genre }) => {
+        const preferences = await this.getUserPreferences();
+        const favorites = new Set(preferences.favoriteGenres);
         
-        if (preferences.booksRead.length > 0) {
-          const recentBooks = preferences.booksRead.slice(-5).map(b => 
-            `"${b.title}" by ${b.author}`
-          );
-          prompt += `They have read: ${recentBooks.join(", ")}. `;
+        let roots = rootGenres();
+        if (genre) {
+          const match = resolveGenre(genre);
+          if (!match) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `"${genre}" isn't in the genre list.${didYouMean(suggestGenresFor(genre, 3).map(suggestion => `"${suggestion}"`))}`,
+                },
+              ],
+            };
+          }
+          roots = [match.genre];
         }
         
-        if (preferences.dislikedBooks.length > 0) {
-          const dislikedBooks = preferences.dislikedBooks.map(b => 
-            `"${b.title}" by ${b.author}`
-          );
-          prompt += `They disliked these books: ${dislikedBooks.join(", ")}. `;
+        const lines: string[] = [];
+        const walk = (name: string, depth: number) => {
+          const synonyms = GENRE_TAXONOMY[name]?.synonyms || [];
+          const aka = synonyms.length > 0 ? ` _(also: ${synonyms.slice(0, 3).join(", ")})_` : "";
+          lines.push(`${"  ".repeat(depth)}• ${favorites.has(name) ? `**${name}** ★` : name}${aka}`);
+          genreChildren(name).forEach(child => walk(child, depth + 1));
+        };
+        roots.forEach(root => walk(root, 0));
+        
+        const custom = preferences.favoriteGenres.filter(name => !GENRE_TAXONOMY[name]);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Genres**${genre ? ` under ${roots[0]}` : ""} (★ = your favorites)
+
+${lines.join('\n')}${custom.length > 0 && !genre ? `
+
+**Your custom genres:** ${custom.join(", ")}` : ""}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "suggestGenres",
+      "Suggest genres to add, either matching some text or related to the genres you already like",
+      {
+        text: z.string().optional().describe("A genre description to match (e.g., 'spooky', 'space battles')"),
+      },
+      async ({ text }) => {
+        const preferences = await this.getUserPreferences();
+        
+        if (text) {
+          const matches = suggestGenresFor(text);
+          return {
+            content: [
+              {
+                type: "text",
+                text: matches.length > 0
+                  ? `**Genres matching "${text}":**
+${matches.map(match => `• ${describeGenre(match)}${preferences.favoriteGenres.includes(match) ? " ★" : ""}`).join('\n')}
+
+Use addGenre to add any of these.`
+                  : `No genres match "${text}". Use listGenres to browse the full list.`,
+              },
+            ],
+          };
         }
         
-        if (preferences.dislikedAuthors.length > 0) {
-          prompt += `They don't like these authors: ${preferences.dislikedAuthors.join(", ")}. `;
+        const related = suggestRelatedGenres(preferences.favoriteGenres);
+        return {
+          content: [
+            {
+              type: "text",
+              text: related.length > 0
+                ? `**Based on your favorite genres, you might also like:**
+${related.map(suggestion => `• ${describeGenre(suggestion)}`).join('\n')}
+
+Use addGenre to add any of these.`
+                : `Add a few favorite genres first, or use listGenres to browse the full list.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "removeAuthor",
+      "Remove an author from your favorite or disliked authors",
+      {
+        author: z.string().describe("The author to remove"),
+        list: z.enum(["favorite", "disliked"]).describe("Which author list to remove them from"),
+      },
+      async ({ author, list }) => {
+        const preferences = await this.getUserPreferences();
+        const authors = preferences[AUTHOR_LISTS[list]] || [];
+        const index = findAuthorIndex(authors, author);
+        
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${author}" isn't in your ${list} authors.${didYouMean(suggestMatches(author, authors).map(match => `"${match}"`))}`,
+              },
+            ],
+          };
         }
         
-        prompt += `Provide specific book recommendations with title, author, and brief explanation of why they'd enjoy it. Avoid recommending books they've already read or authors they dislike.`;
+        const [removed] = authors.splice(index, 1);
+        preferences[AUTHOR_LISTS[list]] = authors;
+        await this.updateUserPreferences(preferences, "removeAuthor");
         
-        try {
-          // Generate recommendation by using Workers AI
-          const response = await this.env.AI.run("@cf/meta/llama-3.1-8b-instruct-fast", {
-            prompt,
-            max_tokens: 600,
-          });
-          
-          const contextUsed = [];
-          if (preferences.favoriteGenres.length > 0) contextUsed.push(`${preferences.favoriteGenres.length} favorite genres`);
-          if (preferences.favoriteAuthors.length > 0) contextUsed.push(`${preferences.favoriteAuthors.length} favorite authors`);
-          if (preferences.booksRead.length > 0) contextUsed.push(`${preferences.booksRead.length} books read`);
-          if (preferences.dislikedBooks.length > 0) contextUsed.push(`${preferences.dislikedBooks.length} disliked books`);
-          if (preferences.dislikedAuthors.length > 0) contextUsed.push(`${preferences.dislikedAuthors.length} disliked authors`);
-          
-          const contextText = contextUsed.length > 0 
-            ? `\n\nPersonalized based on: ${contextUsed.join(", ")}.`
-            : "\n\nAdd your preferences using the available tools for more personalized recommendations.";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Removed "${removed}" from your ${list} authors.
+
+**Your ${list} authors:** ${authors.length > 0 ? authors.join(", ") : "None yet"}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "renameAuthor",
+      "Fix the spelling of an author in your favorite or disliked authors",
+      {
+        author: z.string().describe("The author as it appears in your lists"),
+        newName: z.string().describe("The corrected name"),
+      },
+      async ({ author, newName }) => {
+        const preferences = await this.getUserPreferences();
+        const normalizedName = newName.trim();
+        const renamedIn: string[] = [];
+        
+        for (const list of ["favorite", "disliked"] as const) {
+          const authors = preferences[AUTHOR_LISTS[list]] || [];
+          const index = findAuthorIndex(authors, author);
+          if (index === -1) continue;
           
+          const duplicate = findAuthorIndex(authors, normalizedName);
+          if (duplicate !== -1 && duplicate !== index) {
+            authors.splice(index, 1);
+          } else {
+            authors[index] = normalizedName;
+          }
+          preferences[AUTHOR_LISTS[list]] = authors;
+          renamedIn.push(list);
+        }
+        
+        if (renamedIn.length === 0) {
+          const allAuthors = [...(preferences.favoriteAuthors || []), ...(preferences.dislikedAuthors || [])];
           return {
             content: [
               {
                 type: "text",
-                text: `**Personalized Recommendations for ${preferences.userName}:**
+                text: `"${author}" isn't in your favorite or disliked authors.${didYouMean(suggestMatches(author, allAuthors).map(match => `"${match}"`))}`,
+              },
+            ],
+          };
+        }
+        
+        await this.updateUserPreferences(preferences, "renameAuthor");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Renamed "${author}" to "${normalizedName}" in your ${renamedIn.join(" and ")} authors.`,
+            },
+          ],
+        };
+      }
+    );
 
-${response.response}${contextText}`,
+    this.server.tool(
+      "moveAuthor",
+      "Move an author between your favorite and disliked authors",
+      {
+        author: z.string().describe("The author to move"),
+        to: z.enum(["favorite", "disliked"]).describe("The list to move them to"),
+      },
+      async ({ author, to }) => {
+        const preferences = await this.getUserPreferences();
+        const from = to === "favorite" ? "disliked" : "favorite";
+        const source = preferences[AUTHOR_LISTS[from]] || [];
+        const target = preferences[AUTHOR_LISTS[to]] || [];
+        const index = findAuthorIndex(source, author);
+        
+        if (index === -1) {
+          const alreadyThere = findAuthorIndex(target, author) !== -1;
+          return {
+            content: [
+              {
+                type: "text",
+                text: alreadyThere
+                  ? `"${author}" is already in your ${to} authors!`
+                  : `"${author}" isn't in your ${from} authors.${didYouMean(suggestMatches(author, source).map(match => `"${match}"`))}`,
               },
             ],
           };
-        } catch (error) {
-          console.error("AI recommendation error:", error);
+        }
+        
+        // Remove and add in a single update so the author is never in both lists, or neither
+        const [moved] = source.splice(index, 1);
+        if (findAuthorIndex(target, moved) === -1) target.push(moved);
+        preferences[AUTHOR_LISTS[from]] = source;
+        preferences[AUTHOR_LISTS[to]] = target;
+        await this.updateUserPreferences(preferences, "moveAuthor");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Moved "${moved}" from your ${from} authors to your ${to} authors.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "removeBook",
+      "Remove a book from your read or disliked books",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        list: z.enum(["read", "disliked"]).describe("Which list to remove the book from"),
+      },
+      async ({ title, author, list }) => {
+        const preferences = await this.getUserPreferences();
+        const books: Array<{ title: string; author: string }> = preferences[BOOK_LISTS[list]] || [];
+        const index = findBookIndex(books, title, author);
+        
+        if (index === -1) {
           return {
             content: [
               {
                 type: "text",
-                text: `Sorry, I had trouble generating recommendations right now. Please try again in a moment.`,
+                text: `"${title}" by ${author} isn't in your ${list} books.${didYouMean(suggestBooks(books, title, author))}`,
+              },
+            ],
+          };
+        }
+        
+        const [removed] = books.splice(index, 1);
+        await this.updateUserPreferences(preferences, "removeBook");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Removed ${bookLabel(removed)} from your ${list} books.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "renameBook",
+      "Correct the title or author of a book in your read or disliked books",
+      {
+        title: z.string().describe("The book title as it appears in your list"),
+        author: z.string().describe("The book author as it appears in your list"),
+        list: z.enum(["read", "disliked"]).describe("Which list the book is in"),
+        newTitle: z.string().optional().describe("The corrected title"),
+        newAuthor: z.string().optional().describe("The corrected author"),
+      },
+      async ({ title, author, list, newTitle, newAuthor }) => {
+        const preferences = await this.getUserPreferences();
+        const books: Array<{ title: string; author: string }> = preferences[BOOK_LISTS[list]] || [];
+        const index = findBookIndex(books, title, author);
+        
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} isn't in your ${list} books.${didYouMean(suggestBooks(books, title, author))}`,
+              },
+            ],
+          };
+        }
+        
+        if (!newTitle?.trim() && !newAuthor?.trim()) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Provide a newTitle or newAuthor to rename the book.`,
+              },
+            ],
+          };
+        }
+        
+        const book = books[index];
+        const previous = bookLabel(book);
+        const renamedTitle = newTitle?.trim() || book.title;
+        const renamedAuthor = newAuthor?.trim() || book.author;
+        const duplicate = findBookIndex(books, renamedTitle, renamedAuthor);
+        if (duplicate !== -1 && duplicate !== index) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${bookLabel(books[duplicate])} is already in your ${list} books. Use removeBook to remove ${previous} instead.`,
+              },
+            ],
+          };
+        }
+        
+        book.title = renamedTitle;
+        book.author = renamedAuthor;
+        await this.updateUserPreferences(preferences, "renameBook");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Renamed ${previous} to ${bookLabel(book)}.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "moveBookToDisliked",
+      "Move a book from your read books to your disliked books",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+      },
+      async ({ title, author }) => {
+        const preferences = await this.getUserPreferences();
+        const index = findBookIndex(preferences.booksRead, title, author);
+        
+        if (index === -1) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} isn't in your read books.${didYouMean(suggestBooks(preferences.booksRead, title, author))}`,
+              },
+            ],
+          };
+        }
+        
+        // Remove and add in a single update so the book is never in both lists, or neither
+        const [book] = preferences.booksRead.splice(index, 1);
+        if (findBookIndex(preferences.dislikedBooks, book.title, book.author, book.isbn) === -1) {
+          const dislikedBook: ShelvedBook = { title: book.title, author: book.author, dateAdded: new Date().toISOString(), workId: book.workId };
+          if (book.isbn) dislikedBook.isbn = book.isbn;
+          if (book.genre) dislikedBook.genre = book.genre;
+          applySeries(dislikedBook, book.series, book.seriesPosition);
+          preferences.dislikedBooks.push(dislikedBook);
+        }
+        await this.updateUserPreferences(preferences, "moveBookToDisliked");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Moved ${bookLabel(book)} from your read books to your disliked books.
+
+This will help me avoid recommending similar books in the future.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "mergeDuplicates",
+      "Find and merge duplicate books and authors (e.g. \"The Hobbit\" and \"Hobbit, The\", or \"J.R.R. Tolkien\" and \"JRR Tolkien\")",
+      {
+        dryRun: z.boolean().optional().describe("Preview the merges without saving them (default true)"),
+      },
+      async ({ dryRun }) => {
+        const preferences = await this.getUserPreferences();
+        const preview = dryRun ?? true;
+        const report: string[] = [];
+        
+        const mergeBooks = <T extends ShelvedBook>(list: T[], label: string): T[] => {
+          const { books, merged } = mergeDuplicateBooks(list);
+          report.push(...merged.map(({ kept, duplicate }) => `• ${label}: ${bookLabel(duplicate)} → ${bookLabel(kept)}`));
+          return books;
+        };
+        preferences.booksRead = mergeBooks(preferences.booksRead, "read");
+        preferences.dislikedBooks = mergeBooks(preferences.dislikedBooks, "disliked");
+        preferences.wantToRead = mergeBooks(preferences.wantToRead, "want-to-read");
+        preferences.currentlyReading = mergeBooks(preferences.currentlyReading, "currently-reading");
+        preferences.didNotFinish = mergeBooks(preferences.didNotFinish, "did-not-finish");
+        
+        for (const list of ["favorite", "disliked"] as const) {
+          const { authors, merged } = mergeDuplicateAuthors(preferences[AUTHOR_LISTS[list]] || []);
+          preferences[AUTHOR_LISTS[list]] = authors;
+          report.push(...merged.map(({ kept, duplicate }) => `• ${list} authors: "${duplicate}" → "${kept}"`));
+        }
+        
+        if (report.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No duplicates found. Your lists are already tidy!`,
+              },
+            ],
+          };
+        }
+        
+        if (!preview) {
+          await this.updateUserPreferences(preferences, "mergeDuplicates");
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${preview ? `**Found ${report.length} duplicate${report.length === 1 ? "" : "s"}** (preview only, nothing saved)` : `**Merged ${report.length} duplicate${report.length === 1 ? "" : "s"}**`}
+
+${report.join('\n')}
+
+${preview ? "Run mergeDuplicates with dryRun set to false to apply these merges." : "Ratings, reviews and ISBNs from the duplicates were kept. Use undoLastChange if anything was merged by mistake."}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "importLibrary",
+      "Import your library from a Goodreads or StoryGraph CSV export: shelves, ratings, read dates and ISBNs. Previews by default",
+      {
+        csv: z.string().describe("The full contents of the exported CSV file, including the header row"),
+        dryRun: z.boolean().optional().describe("Preview the import without saving it (default true)"),
+      },
+      async ({ csv, dryRun }) => {
+        const preview = dryRun ?? true;
+        
+        let parsed: ReturnType<typeof parseLibraryExport>;
+        try {
+          parsed = parseLibraryExport(csv);
+        } catch (error) {
+          if (!(error instanceof ImportError)) throw error;
+          return {
+            content: [
+              {
+                type: "text",
+                text: error.message,
+              },
+            ],
+          };
+        }
+        
+        const report = await this.userPreferences.importLibrary(parsed.format, parsed.rows, preview, this.changeContext("importLibrary"));
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatImportReport(report, preview),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "exportProfile",
+      "Export your whole profile: as re-importable JSON, as a Goodreads-compatible CSV, or as schema.org JSON-LD",
+      {
+        format: z.enum(["json", "csv", "jsonld"]).optional().describe("json (default; can be restored with restoreProfile), csv (for Goodreads or StoryGraph) or jsonld (schema.org Book/ReadAction)"),
+      },
+      async ({ format }) => {
+        const exportFormat = format ?? "json";
+        const [preferences, goals, quotes] = await Promise.all([
+          this.getUserPreferences(),
+          this.userPreferences.getGoals(),
+          this.userPreferences.getQuotes(),
+        ]);
+        const totalBooks = SHELF_NAMES.reduce((total, shelf) => total + preferences[SHELVES[shelf]].length, preferences.dislikedBooks.length);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${totalBooks} books as ${exportFormat.toUpperCase()}. Larger libraries can also be downloaded from /export?format=${exportFormat}.`,
+            },
+            {
+              type: "text",
+              text: renderExport(exportFormat, preferences, goals, quotes),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "restoreProfile",
+      "Restore your profile from a JSON export, replacing your current library. Previews by default",
+      {
+        json: z.string().describe("The JSON document produced by exportProfile"),
+        dryRun: z.boolean().optional().describe("Preview the restore without saving it (default true)"),
+      },
+      async ({ json, dryRun }) => {
+        const preview = dryRun ?? true;
+        const result = parseProfileExport(json);
+        
+        if ("error" in result) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: result.error,
+              },
+            ],
+          };
+        }
+        
+        const counts = Object.entries(countProfileExport(result.profile))
+          .filter(([, count]) => count > 0)
+          .map(([field, count]) => `${HISTORY_FIELD_LABELS[field] ?? field}: ${count}`);
+        if (!preview) {
+          await this.userPreferences.restoreProfile(result.profile, this.changeContext("restoreProfile"));
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**${preview ? "Restore preview" : "Profile restored"}** (exported ${result.profile.exportedAt.slice(0, 10)})
+
+${counts.length > 0 ? counts.map(line => `• ${line}`).join('\n') : "The export is empty."}
+
+${preview
+  ? "This would replace your current library and reading goals, and add any quotes in it to the ones you have. Undo can bring back your books, authors and genres, but not your current reading goals. Run restoreProfile again with dryRun set to false to apply it."
+  : `Your previous books, authors and genres can be brought back with undoLastChange. Your previous reading goals were replaced and can't be.${result.profile.quotes.length > 0 ? " Quotes from the export were added to the ones you already had." : ""}`}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "addToShelf",
+      "Save a book to your want-to-read, currently-reading or did-not-finish shelf",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        shelf: z.enum(["want-to-read", "currently-reading", "did-not-finish"]).describe("Which shelf to put the book on"),
+        isbn: z.string().optional().describe("The book's ISBN-10 or ISBN-13, if you know it"),
+        genre: z.string().optional().describe("The book's genre (e.g., 'space opera')"),
+        series: z.string().optional().describe("The series the book belongs to. Read from titles like 'Mort (Discworld #4)' if left out"),
+        seriesPosition: z.number().min(0).optional().describe("The book's number in the series"),
+      },
+      async ({ title, author, shelf, isbn, genre, series, seriesPosition }) => {
+        const preferences = await this.getUserPreferences();
+        
+        const normalizedIsbn = isbn ? normalizeIsbn(isbn) : null;
+        if (isbn && !normalizedIsbn) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${isbn}" isn't a valid ISBN-10 or ISBN-13. Check the digits, or leave the ISBN out.`,
+              },
+            ],
+          };
+        }
+        
+        const existing = findOnShelves(preferences, title, author, normalizedIsbn || undefined);
+        
+        if (existing) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: existing.shelf === shelf
+                  ? `"${title}" by ${author} is already on your ${shelf} shelf!`
+                  : `"${title}" by ${author} is on your ${existing.shelf} shelf. Use moveBook to move it to ${shelf}.`,
+              },
+            ],
+          };
+        }
+        
+        const now = new Date().toISOString();
+        const entry: ShelvedBook = { title, author, dateAdded: now, workId: createWorkId() };
+        if (normalizedIsbn) entry.isbn = normalizedIsbn;
+        if (genre) entry.genre = canonicalGenre(genre);
+        applySeries(entry, series, seriesPosition);
+        if (shelf === "currently-reading") {
+          preferences.currentlyReading.push({ ...entry, dateStarted: now });
+        } else {
+          preferences[SHELVES[shelf]].push(entry);
+        }
+        await this.updateUserPreferences(preferences, "addToShelf");
+        
+        const shelfBooks = preferences[SHELVES[shelf]];
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Added "${title}" by ${author} to your ${shelf} shelf!
+
+**${shelf} (${shelfBooks.length}):**
+${shelfBooks.slice(-5).map(book => `• "${book.title}" by ${book.author}`).join('\n')}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "moveBook",
+      "Move a book between your shelves (want-to-read, currently-reading, did-not-finish, read)",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        to: z.enum(SHELF_NAMES).describe("The shelf to move the book to"),
+        rating: z.number().int().min(1).max(5).optional().describe("Your rating from 1 to 5 stars, when moving to read"),
+        reason: z.string().optional().describe("Why you stopped reading, when moving to did-not-finish"),
+      },
+      async ({ title, author, to, rating, reason }) => {
+        const preferences = await this.getUserPreferences();
+        const existing = findOnShelves(preferences, title, author);
+        
+        if (!existing) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} isn't on any of your shelves. Use addToShelf or addBookRead to add it.`,
+              },
+            ],
+          };
+        }
+        
+        if (existing.shelf === to) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} is already on your ${to} shelf!`,
+              },
+            ],
+          };
+        }
+        
+        const [book] = preferences[SHELVES[existing.shelf]].splice(existing.index, 1);
+        const now = new Date().toISOString();
+        // Everything known about the book comes along (including when it was added), so moving it back
+        // and forth loses nothing; only why and where they gave up is dropped once it's off that shelf
+        const base: ShelvedBook & Partial<ReadBook & CurrentlyReadingBook & DidNotFinishBook> = { ...book };
+        delete base.stoppedAt;
+        delete base.reason;
+        
+        switch (to) {
+          case "read": {
+            const readBook: ReadBook = { ...base, dateFinished: now };
+            // Finishing a book they'd already read, e.g. after moving it back to currently-reading, is a reread
+            if (base.dateFinished) readBook.rereadCount = (base.rereadCount ?? 0) + 1;
+            if (rating !== undefined) readBook.rating = rating;
+            if (base.totalPages && !base.pages) readBook.pages = base.totalPages;
+            preferences.booksRead.push(readBook);
+            break;
+          }
+          case "currently-reading": {
+            // Starting again, so progress from an earlier read no longer applies
+            const readingBook: CurrentlyReadingBook = { ...base, dateStarted: now };
+            delete readingBook.currentPage;
+            delete readingBook.percentComplete;
+            preferences.currentlyReading.push(readingBook);
+            break;
+          }
+          case "did-not-finish": {
+            const dnfBook: DidNotFinishBook = { ...base };
+            if (existing.shelf === "currently-reading") {
+              const progress = book as CurrentlyReadingBook;
+              if (progress.currentPage !== undefined || progress.percentComplete !== undefined) {
+                dnfBook.stoppedAt = formatProgress(progress);
+              }
+            }
+            if (reason) dnfBook.reason = reason.trim();
+            preferences.didNotFinish.push(dnfBook);
+            break;
+          }
+          case "want-to-read":
+            preferences.wantToRead.push(base);
+            break;
+        }
+        await this.updateUserPreferences(preferences, "moveBook");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Moved "${book.title}" by ${book.author} from ${existing.shelf} to ${to}${to === "read" ? formatStars(rating) : ""}.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "updateReadingProgress",
+      "Update your progress on a book you're currently reading",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        currentPage: z.number().int().min(0).optional().describe("The page you're on"),
+        totalPages: z.number().int().min(1).optional().describe("Total number of pages in the book"),
+        percentComplete: z.number().min(0).max(100).optional().describe("How far through the book you are, as a percentage"),
+      },
+      async ({ title, author, currentPage, totalPages, percentComplete }) => {
+        const preferences = await this.getUserPreferences();
+        const existing = findOnShelves(preferences, title, author);
+        
+        if (!existing || existing.shelf !== "currently-reading") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: existing
+                  ? `"${title}" by ${author} is on your ${existing.shelf} shelf. Use moveBook to move it to currently-reading first.`
+                  : `"${title}" by ${author} isn't on your currently-reading shelf. Use addToShelf to start it.`,
+              },
+            ],
+          };
+        }
+        
+        if (currentPage === undefined && totalPages === undefined && percentComplete === undefined) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Provide a currentPage, totalPages or percentComplete to update your progress.`,
+              },
+            ],
+          };
+        }
+        
+        const book = preferences.currentlyReading[existing.index];
+        if (currentPage !== undefined) book.currentPage = currentPage;
+        if (totalPages !== undefined) book.totalPages = totalPages;
+        if (percentComplete !== undefined) {
+          book.percentComplete = percentComplete;
+        } else if (book.currentPage !== undefined && book.totalPages) {
+          book.percentComplete = Math.min(100, Math.round((book.currentPage / book.totalPages) * 100));
+        }
+        await this.updateUserPreferences(preferences, "updateReadingProgress");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Updated your progress on "${book.title}": ${formatProgress(book)}.${book.percentComplete === 100 ? `
+
+Finished? Use moveBook to move it to your read shelf and give it a rating.` : ""}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "setBookSeries",
+      "Set the series and volume number of a book on any of your shelves",
+      {
+        title: z.string().describe("The book title"),
+        author: z.string().describe("The book author"),
+        series: z.string().describe("The series name (e.g., 'The Expanse')"),
+        seriesPosition: z.number().min(0).describe("The book's number in the series (e.g., 3, or 1.5 for a novella)"),
+      },
+      async ({ title, author, series, seriesPosition }) => {
+        const preferences = await this.getUserPreferences();
+        const existing = findOnShelves(preferences, title, author);
+        
+        if (!existing) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${title}" by ${author} isn't on any of your shelves.${didYouMean(suggestBooks(SHELF_NAMES.flatMap(shelf => preferences[SHELVES[shelf]]), title, author))}`,
+              },
+            ],
+          };
+        }
+        
+        const book = preferences[SHELVES[existing.shelf]][existing.index];
+        book.series = series.trim();
+        book.seriesPosition = seriesPosition;
+        await this.updateUserPreferences(preferences, "setBookSeries");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `"${book.title}" is now #${seriesPosition} in ${book.series}.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getSeriesProgress",
+      "List the series you've started, with any volumes you skipped and the next one to read",
+      {},
+      async () => {
+        const preferences = await this.getUserPreferences();
+        const progress = computeSeriesProgress(preferences);
+        
+        if (progress.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `You haven't started any series yet. Series are picked up from titles like "Mort (Discworld #4)", or you can set one with setBookSeries.`,
+              },
+            ],
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Your Series (${progress.length})**
+
+${progress.map(formatSeriesProgress).join('\n\n')}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "addQuote",
+      "Save a quote or passage from a book",
+      {
+        text: z.string().min(1).describe("The quote"),
+        title: z.string().describe("The book it's from"),
+        author: z.string().describe("The book's author"),
+        page: z.string().optional().describe("The page number"),
+        note: z.string().optional().describe("Your thoughts on the passage"),
+        favorite: z.boolean().optional().describe("Mark as a favorite passage, which also informs your recommendations"),
+      },
+      async ({ text, title, author, page, note, favorite }) => {
+        const quote: NewQuote = {
+          text: text.trim(),
+          title: title.trim(),
+          author: author.trim(),
+          workId: null,
+          note: note?.trim() || null,
+          location: null,
+          page: page?.trim() || null,
+          highlightedAt: null,
+          source: "manual",
+          favorite: favorite ?? false,
+        };
+        const result = await this.userPreferences.addQuotes([quote]);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.added === 0
+                ? `You've already saved that passage from "${title}".`
+                : `Saved${favorite ? " as a favorite" : ""}:
+
+> ${quote.text}
+— ${quote.title} by ${quote.author}${result.linked === 0 ? `
+
+"${title}" isn't in your read books, so the quote isn't linked to a book yet.` : ""}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "importKindleClippings",
+      "Import highlights and notes from a Kindle \"My Clippings.txt\" file into your quotes. Previews by default",
+      {
+        clippings: z.string().describe("The contents of My Clippings.txt"),
+        dryRun: z.boolean().optional().describe("Preview the import without saving it (default true)"),
+      },
+      async ({ clippings, dryRun }) => {
+        const preview = dryRun ?? true;
+        const highlights = parseKindleClippings(clippings);
+        
+        if (highlights.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No highlights found. Paste the full contents of My Clippings.txt from your Kindle's documents folder.`,
+              },
+            ],
+          };
+        }
+        
+        const perBook = new Map<string, number>();
+        for (const highlight of highlights) {
+          const label = bookLabel(highlight);
+          perBook.set(label, (perBook.get(label) ?? 0) + 1);
+        }
+        const books = [...perBook.entries()].sort((a, b) => b[1] - a[1]).map(([label, count]) => `• ${label}: ${count}`);
+        
+        if (preview) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `**Kindle import preview:** ${highlights.length} highlights from ${perBook.size} books (${highlights.filter(h => h.note).length} with notes)
+
+${books.slice(0, 20).join('\n')}${books.length > 20 ? `\n• ...and ${books.length - 20} more` : ""}
+
+Run importKindleClippings again with dryRun set to false to save them.`,
+              },
+            ],
+          };
+        }
+        
+        const result = await this.userPreferences.addQuotes(highlights.map(highlight => ({
+          text: highlight.text,
+          title: highlight.title,
+          author: highlight.author,
+          workId: null,
+          note: highlight.note ?? null,
+          location: highlight.location ?? null,
+          page: highlight.page ?? null,
+          highlightedAt: highlight.highlightedAt ?? null,
+          source: "kindle",
+          favorite: false,
+        })));
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Imported ${result.added} highlights from ${perBook.size} books${result.duplicates > 0 ? ` (${result.duplicates} were already saved)` : ""}. ${result.linked} are linked to books you've read.
+
+Use searchQuotes to find them, or favoriteQuote to mark the passages you love.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "searchQuotes",
+      "Search your saved quotes and highlights by text, book or author",
+      {
+        query: z.string().optional().describe("Words to look for in the quote or your note"),
+        title: z.string().optional().describe("Only quotes from this book"),
+        author: z.string().optional().describe("Only quotes by this author"),
+        favoritesOnly: z.boolean().optional().describe("Only favorite passages"),
+        limit: z.number().int().min(1).max(50).optional().describe("Maximum number of quotes (default 10)"),
+      },
+      async ({ query, title, author, favoritesOnly, limit }) => {
+        const quotes = await this.userPreferences.searchQuotes({ query, title, author, favoritesOnly, limit: limit ?? 10 });
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: quotes.length > 0
+                ? `**Quotes (${quotes.length}):**
+
+${quotes.map(formatQuote).join('\n\n')}`
+                : `No quotes found. Save some with addQuote or importKindleClippings.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "randomQuote",
+      "Show a random quote from your saved passages",
+      {
+        title: z.string().optional().describe("Only quotes from this book"),
+        author: z.string().optional().describe("Only quotes by this author"),
+        favoritesOnly: z.boolean().optional().describe("Only favorite passages"),
+      },
+      async ({ title, author, favoritesOnly }) => {
+        const quote = await this.userPreferences.randomQuote({ title, author, favoritesOnly });
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: quote ? formatQuote(quote) : `No quotes found. Save some with addQuote or importKindleClippings.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "favoriteQuote",
+      "Mark or unmark a saved quote as a favorite passage. Favorites inform your recommendations",
+      {
+        id: z.number().int().describe("The quote's number, shown as [#id] in search results"),
+        favorite: z.boolean().optional().describe("false to unmark it (default true)"),
+      },
+      async ({ id, favorite }) => {
+        const quote = await this.userPreferences.setQuoteFavorite(id, favorite ?? true);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: quote
+                ? `${quote.favorite ? "Marked" : "Unmarked"} quote #${id} from "${quote.title}" ${quote.favorite ? "as a favorite ⭐" : "as a favorite"}.`
+                : `There's no quote #${id}. Use searchQuotes to find its number.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "setReadingGoal",
+      "Set a reading goal: a number of books or pages to read each year or month. A target of 0 removes the goal",
+      {
+        target: z.number().int().min(0).describe("How many books or pages to read in each period (0 removes the goal)"),
+        metric: z.enum(["books", "pages"]).default("books").describe("Count books or pages"),
+        period: z.enum(["year", "month"]).default("year").describe("Whether the goal resets every year or every month"),
+      },
+      async ({ target, metric, period }) => {
+        const changed = await this.userPreferences.setReadingGoal(period, metric, target);
+        
+        if (target === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: changed
+                  ? `Removed your ${period}ly ${metric} goal.`
+                  : `You don't have a ${period}ly ${metric} goal to remove.`,
+              },
+            ],
+          };
+        }
+        
+        const progress = (await this.userPreferences.getGoalProgress()).find(
+          goal => goal.goal.period === period && goal.goal.metric === metric
+        );
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Goal set: ${target} ${metric} per ${period}! 🎯
+${progress ? `
+**So far:** ${describeGoalProgress(progress)}` : ""}${metric === "pages" ? `
+
+Page counts come from the books you log with addBookRead (pass pages) or finish from your currently-reading shelf.` : ""}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getGoalProgress",
+      "See how you're doing against your reading goals, and whether you're ahead of or behind schedule",
+      {},
+      async () => {
+        const progress = await this.userPreferences.getGoalProgress();
+        
+        if (progress.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `You haven't set any reading goals yet. Use setReadingGoal to set one, e.g. 24 books a year.`,
+              },
+            ],
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Reading Goals**
+
+${progress.map(formatGoalProgress).join('\n\n')}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getReadingStats",
+      "Get statistics about your reading: books per year and month, top authors, genres, ratings, streaks and how many books you liked",
+      {
+        from: z.string().optional().describe("Only count books finished on or after this date (e.g., '2024' or '2024-03-01')"),
+        to: z.string().optional().describe("Only count books finished on or before this date (e.g., '2024' or '2024-12-31')"),
+      },
+      async ({ from, to }) => {
+        const start = from ? parseDate(from) : null;
+        const end = to ? parseRangeEnd(to) : null;
+        if ((from && !start) || (to && !end)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `"${from && !start ? from : to}" isn't a date I understand. Try a format like 2024 or 2024-03-15.`,
+              },
+            ],
+          };
+        }
+        
+        const preferences = await this.getUserPreferences();
+        const stats = computeReadingStats(preferences, start, end);
+        
+        // The markdown is for chat; dashboards read the same numbers from structuredContent
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatReadingStats(stats),
+            },
+          ],
+          structuredContent: stats as unknown as Record<string, unknown>,
+        };
+      }
+    );
+
+    this.server.tool(
+      "clearPreferences",
+      "Clear all your reading preferences and start fresh",
+      {},
+      async () => {
+        const preferences = await this.getUserPreferences();
+        const clearedPreferences = createEmptyPreferences(preferences.userName);
+        
+        await this.updateUserPreferences(clearedPreferences, "clearPreferences");
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `🧹 **All preferences cleared for ${preferences.userName}!**
+    
+    Your reading profile has been reset:
+    • Favorite genres: cleared
+    • Favorite authors: cleared  
+    • Books read: cleared
+    • Disliked books: cleared
+    • Disliked authors: cleared
+    • Want to read, currently reading and did-not-finish shelves: cleared
+    
+    You can start building your preferences again using the available tools.
+    Changed your mind? Use undoLastChange to restore everything (available for ${HISTORY_RETENTION_DAYS} days).`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "undoLastChange",
+      "Undo the most recent change to your reading preferences",
+      {},
+      async () => {
+        const result = await this.userPreferences.undo(this.changeContext("undoLastChange"));
+        
+        if (!result) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `There's nothing to undo. Changes can be undone for ${HISTORY_RETENTION_DAYS} days after they're made.`,
+              },
+            ],
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `↩️ Undid your last change${result.tool ? ` (${result.tool})` : ""}.
+
+**Restored:** ${result.fields.map(field => HISTORY_FIELD_LABELS[field] || field).join(", ")}
+
+Use redo to put it back, or getHistory to see earlier changes.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "redo",
+      "Re-apply a change you just undid",
+      {},
+      async () => {
+        const result = await this.userPreferences.redo(this.changeContext("redo"));
+        
+        if (!result) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `There's nothing to redo. Only changes undone since your last edit can be redone.`,
+              },
+            ],
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `↪️ Redid ${result.tool || "your change"}.
+
+**Updated:** ${result.fields.map(field => HISTORY_FIELD_LABELS[field] || field).join(", ")}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getHistory",
+      "See recent changes to your reading preferences",
+      {
+        limit: z.number().int().min(1).max(100).optional().describe("How many changes to show (default 20)"),
+      },
+      async ({ limit }) => {
+        const history = await this.userPreferences.getHistory(limit ?? 20);
+        
+        if (history.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No changes recorded yet.`,
+              },
+            ],
+          };
+        }
+        
+        const lines = history.map(entry => {
+          const when = entry.createdAt.slice(0, 16).replace("T", " ");
+          const who = entry.actor ? ` by ${entry.actor}` : "";
+          const fields = entry.fields.length > 0 ? `: ${entry.fields.map(field => HISTORY_FIELD_LABELS[field] || field).join(", ")}` : "";
+          const status = entry.status && entry.status !== "applied" ? ` _(${entry.status})_` : "";
+          return `• ${when} - ${entry.tool || entry.type}${who}${fields}${status}`;
+        });
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Recent changes** (newest first)
+
+${lines.join('\n')}
+
+Use undoLastChange to revert the latest applied change. Undo is available for ${HISTORY_RETENTION_DAYS} days.`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getBookRecommendations", 
+      "Get personalized book recommendations based on your preferences, optionally narrowed by genre, mood, length, publication era or format",
+      {
+        count: z.number().int().min(1).max(MAX_RECOMMENDATION_COUNT).optional().describe(`How many books to recommend (default ${RECOMMENDATION_COUNT})`),
+        genre: z.string().optional().describe("Only recommend books in this genre (e.g., 'fantasy', 'cozy mystery')"),
+        mood: z.string().max(100).optional().describe("The mood or tone you're after (e.g., 'upbeat', 'dark and atmospheric')"),
+        minPages: z.number().int().min(1).optional().describe("Shortest book you want, in pages"),
+        maxPages: z.number().int().min(1).optional().describe("Longest book you want, in pages"),
+        earliestYear: z.number().int().min(0).max(2100).optional().describe("Only books first published in or after this year"),
+        latestYear: z.number().int().min(0).max(2100).optional().describe("Only books first published in or before this year"),
+        format: z.enum(["print", "ebook", "audiobook"]).optional().describe("Only books available in this format"),
+        constraints: z.string().max(500).optional().describe("Anything else to take into account (e.g., 'standalone novels only')"),
+        forceRefresh: z.boolean().optional().describe("Ask for new picks even if your profile hasn't changed since the last identical request"),
+      },
+      async ({ count, genre, mood, minPages, maxPages, earliestYear, latestYear, format, constraints, forceRefresh }, extra) => {
+        if (minPages !== undefined && maxPages !== undefined && minPages > maxPages) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `The page range is backwards: minPages (${minPages}) is more than maxPages (${maxPages}).`,
+              },
+            ],
+          };
+        }
+        if (earliestYear !== undefined && latestYear !== undefined && earliestYear > latestYear) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `The publication range is backwards: earliestYear (${earliestYear}) is after latestYear (${latestYear}).`,
+              },
+            ],
+          };
+        }
+        
+        // Free text goes into the prompt, so it's cleaned like stored preferences
+        const clean = (text: string | undefined, maxLength: number) => (text ? sanitizeText(text, maxLength) || undefined : undefined);
+        const genreText = clean(genre, MAX_TEXT_LENGTHS.genre);
+        const request: RecommendationRequest = {
+          count: count ?? RECOMMENDATION_COUNT,
+          genre: genreText ? canonicalGenre(genreText) : undefined,
+          mood: clean(mood, 100),
+          minPages,
+          maxPages,
+          earliestYear,
+          latestYear,
+          format,
+          constraints: clean(constraints, 500),
+        };
+        const wanted = request.count as number;
+        const preferences = await this.getUserPreferences();
+        
+        // The same request against an unchanged profile gets the same batch back, without another model call
+        const cacheKey = await recommendationCacheKey(preferences, request);
+        const cached = forceRefresh ? null : await this.userPreferences.getCachedRecommendations(cacheKey);
+        
+        // Only computed from the profile, and shown alongside cached picks too
+        const seriesInProgress = computeSeriesProgress(preferences).filter(series => series.reading.length === 0 && series.nextPosition !== null);
+        
+        try {
+          const recommender = createRecommender(this.env);
+          let recommendations: Recommendation[];
+          let cache: CachedRecommendations;
+          if (cached) {
+            ({ recommendations, cache } = cached);
+          } else {
+            // Our instructions go in the system message and everything from the profile and the request goes in
+            // as data, so text the user wrote can't pose as instructions
+            const instructions = [`Recommend ${wanted} ${wanted === 1 ? "book" : "books"} for the reader named in name.`];
+            const data: Record<string, unknown> = { name: preferences.userName };
+            
+            if (preferences.favoriteGenres.length > 0) {
+              // Include each genre's broader categories so the model can reason about related sub-genres
+              data.favoriteGenres = preferences.favoriteGenres.map(describeGenre);
+              instructions.push(`They enjoy the genres in favoriteGenres (broader categories in parentheses), and books in sub-genres of these are also a good fit.`);
+            }
+            
+            if (preferences.favoriteAuthors.length > 0) {
+              data.favoriteAuthors = preferences.favoriteAuthors;
+              instructions.push(`They like the authors in favoriteAuthors.`);
+            }
+            
+            // Highly rated books are the strongest taste signal, low-rated ones act as soft dislikes
+            const lovedBooks = preferences.booksRead
+              .filter(b => (b.rating ?? 0) >= HIGH_RATING)
+              .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) + (b.rereadCount ?? 0) - (a.rereadCount ?? 0));
+            if (lovedBooks.length > 0) {
+              data.lovedBooks = lovedBooks.slice(0, 5).map(b => 
+                `"${b.title}" by ${b.author} (${b.rating}/5${b.rereadCount ? `, reread ${b.rereadCount}x` : ""})`
+              );
+              instructions.push(`They loved the books in lovedBooks, so weigh them most heavily.`);
+            }
+            
+            const otherBooks = preferences.booksRead.filter(b => !lovedBooks.includes(b) && !(b.rating !== undefined && b.rating <= LOW_RATING));
+            if (otherBooks.length > 0) {
+              data.alsoRead = otherBooks.slice(-5).map(b => 
+                `"${b.title}" by ${b.author}${b.rating ? ` (${b.rating}/5)` : ""}`
+              );
+              instructions.push(`They have also read the books in alsoRead.`);
+            }
+            
+            const lowRatedBooks = preferences.booksRead.filter(b => b.rating !== undefined && b.rating <= LOW_RATING);
+            if (lowRatedBooks.length > 0) {
+              data.didNotEnjoy = lowRatedBooks.slice(-5).map(b => 
+                `"${b.title}" by ${b.author} (${b.rating}/5)`
+              );
+              instructions.push(`They finished but didn't enjoy the books in didNotEnjoy, so lean away from similar books.`);
+            }
+            
+            if (preferences.dislikedBooks.length > 0) {
+              data.dislikedBooks = preferences.dislikedBooks.map(b => 
+                `"${b.title}" by ${b.author}`
+              );
+              instructions.push(`They disliked the books in dislikedBooks.`);
+            }
+            
+            if (preferences.dislikedAuthors.length > 0) {
+              data.dislikedAuthors = preferences.dislikedAuthors;
+              instructions.push(`They don't like the authors in dislikedAuthors.`);
+            }
+            
+            if (preferences.wantToRead.length > 0) {
+              data.wantToRead = preferences.wantToRead.slice(-10).map(b => 
+                `"${b.title}" by ${b.author}`
+              );
+              instructions.push(`The books in wantToRead hint at their taste, but don't recommend them again.`);
+            }
+            
+            if (preferences.currentlyReading.length > 0) {
+              data.currentlyReading = preferences.currentlyReading.map(b => 
+                `"${b.title}" by ${b.author}`
+              );
+              instructions.push(`They are currently reading the books in currentlyReading.`);
+            }
+            
+            if (preferences.didNotFinish.length > 0) {
+              data.gaveUpOn = preferences.didNotFinish.slice(-5).map(b => 
+                `"${b.title}" by ${b.author}${b.reason ? ` (${b.reason})` : ""}`
+              );
+              instructions.push(`They gave up on the books in gaveUpOn.`);
+            }
+            
+            // Favorite passages say a lot about the writing they enjoy; fall back to highlights from books they loved
+            let passages: Quote[] = await this.userPreferences.searchQuotes({ favoritesOnly: true, limit: 3 });
+            if (passages.length === 0) {
+              const lovedWorkIds = new Set(lovedBooks.map(b => b.workId));
+              passages = (await this.userPreferences.searchQuotes({ limit: 100 })).filter(q => q.workId && lovedWorkIds.has(q.workId)).slice(0, 3);
+            }
+            if (passages.length > 0) {
+              data.favoritePassages = passages.map(q => `"${q.text.length > 200 ? `${q.text.slice(0, 200)}…` : q.text}" (${q.title})`);
+              instructions.push(`They loved the passages in favoritePassages, which hint at the writing style they enjoy.`);
+            }
+            
+            // Feedback on earlier recommendations: why they turned books down, and what not to suggest again
+            const previous = await this.userPreferences.getSuppressedRecommendations();
+            const declined = previous.filter(r => r.status === "not-interested").slice(0, 10);
+            if (declined.length > 0) {
+              data.declinedSuggestions = declined.map(r => `"${r.title}" by ${r.author}${r.feedbackReason ? ` (${r.feedbackReason})` : ""}`);
+              instructions.push(`They weren't interested in the earlier suggestions in declinedSuggestions, so lean away from similar books.`);
+            }
+            const suggestedBefore = previous.filter(r => r.status !== "not-interested").slice(0, 20);
+            if (suggestedBefore.length > 0) {
+              data.recommendedBefore = suggestedBefore.map(r => `"${r.title}" by ${r.author}`);
+              instructions.push(`The books in recommendedBefore were recommended before, so don't suggest them again.`);
+            }
+            
+            // Series in progress are suggested separately, ahead of the model's picks
+            if (seriesInProgress.length > 0) {
+              data.seriesInProgress = seriesInProgress.map(series => series.series);
+              instructions.push(`They are partway through the series in seriesInProgress, which are handled separately, so recommend books outside them.`);
+            }
+            
+            // What they asked for this time overrides their usual taste
+            const filters = describeRecommendationRequest(request);
+            if (filters) instructions.push(filters);
+            const requestData = recommendationRequestData(request);
+            if (Object.keys(requestData).length > 0) data.request = requestData;
+            
+            // Real books from the catalog similar to ones they liked, so the model only has to rank and explain them.
+            // With too few (a new profile, or a narrow request) it falls back to recommending from memory
+            let candidates: CatalogMatch[] = [];
+            try {
+              candidates = await findCatalogCandidates(this.env.AI, getCatalogIndex(this.env), preferences, request, previous, wanted);
+            } catch (error) {
+              console.error("Catalog search error:", error);
+            }
+            const fromCatalog = candidates.length >= wanted;
+            if (fromCatalog) {
+              instructions.push(`Choose only from these books, picking the ones that best fit their taste and this request, and use their titles and authors exactly as given: ${describeCatalogBooks(candidates.map(candidate => candidate.book))}`);
+            } else {
+              instructions.push(`Recommend specific, real books.`);
+            }
+            
+            instructions.push(`Avoid recommending books they've already read, are reading, want to read or gave up on, and authors they dislike.`);
+            const prompt: RecommendationPrompt = { instructions: instructions.join(" "), data };
+            
+            // Generate recommendations with Workers AI, validated against the recommendation schema and
+            // filtered against the user's shelves, since the model doesn't always follow the prompt.
+            // Each book is reported as it streams in; backfilled replacements keep counting up past the total
+            const reportProgress = progressReporter(extra);
+            let produced = 0;
+            const generated = await generateRecommendations(recommender, prompt, preferences, previous, wanted, {
+              filters: request,
+              candidates: fromCatalog ? candidates.map(candidate => candidate.book) : undefined,
+              onBook: book => {
+                produced++;
+                reportProgress(produced, produced <= wanted ? wanted : undefined, `Considering "${book.title}" by ${book.author}`);
+              },
+              signal: extra.signal,
+            });
+            
+            const contextUsed: string[] = [];
+            if (preferences.favoriteGenres.length > 0) contextUsed.push(`${preferences.favoriteGenres.length} favorite genres`);
+            if (preferences.favoriteAuthors.length > 0) contextUsed.push(`${preferences.favoriteAuthors.length} favorite authors`);
+            if (preferences.booksRead.length > 0) contextUsed.push(`${preferences.booksRead.length} books read`);
+            if (lovedBooks.length > 0 || lowRatedBooks.length > 0) contextUsed.push(`${lovedBooks.length + lowRatedBooks.length} rated books`);
+            if (preferences.dislikedBooks.length > 0) contextUsed.push(`${preferences.dislikedBooks.length} disliked books`);
+            if (preferences.dislikedAuthors.length > 0) contextUsed.push(`${preferences.dislikedAuthors.length} disliked authors`);
+            if (preferences.wantToRead.length > 0) contextUsed.push(`${preferences.wantToRead.length} want-to-read books`);
+            if (preferences.currentlyReading.length > 0) contextUsed.push(`${preferences.currentlyReading.length} books in progress`);
+            if (preferences.didNotFinish.length > 0) contextUsed.push(`${preferences.didNotFinish.length} unfinished books`);
+            if (seriesInProgress.length > 0) contextUsed.push(`${seriesInProgress.length} series in progress`);
+            if (passages.length > 0) contextUsed.push(`${passages.length} favorite passages`);
+            if (declined.length > 0) contextUsed.push(`${declined.length} declined recommendations`);
+            
+            // Saved with IDs so the user can respond to each pick, and so they aren't suggested again
+            recommendations = await this.userPreferences.saveRecommendations(generated.recommendations);
+            cache = await this.userPreferences.cacheRecommendations(cacheKey, recommendations.map(r => r.id), {
+              excluded: generated.excluded,
+              providers: generated.providers,
+              source: fromCatalog ? "catalog" : "model",
+              contextUsed,
+            });
+          }
+          const { excluded, providers, contextUsed } = cache;
+          
+          const continueSeries = seriesInProgress.length > 0
+            ? `**Continue your series:**
+${seriesInProgress.slice(0, 3).map(series => {
+  const next = series.nextBook ?? series.nextCatalogBook;
+  return `• ${series.series} #${series.nextPosition}: "${next?.title}" by ${next?.author ?? series.author}`;
+}).join('\n')}
+
+**Something new:**
+`
+            : "";
+          
+          const excludedText = excluded.length > 0
+            ? `\n\n_Left out ${excluded.length} ${excluded.length === 1 ? "pick" : "picks"} you've already read, shelved or disliked${recommendations.length < wanted ? `, and couldn't find ${wanted - recommendations.length} more` : ""}._`
+            : "";
+          
+          const contextText = contextUsed.length > 0 
+            ? `\n\nPersonalized based on: ${contextUsed.join(", ")}.`
+            : "\n\nAdd your preferences using the available tools for more personalized recommendations.";
+          
+          const fallbackText = providers.includes(RULES_RECOMMENDER) && recommender.name !== RULES_RECOMMENDER
+            ? "\n\n_The AI model wasn't available, so some of these are matched on your favorite authors and genres alone._"
+            : "";
+          
+          const cacheText = cached
+            ? `\n\n_Reused the picks from ${formatAge(cache.createdAt)}, since your profile hasn't changed. Ask again with forceRefresh for new ones._`
+            : "";
+          
+          // Agents can act on individual books from structuredContent; the markdown is for chat
+          return {
+            content: [
+              {
+                type: "text",
+                text: `**Personalized Recommendations for ${preferences.userName}:**
+
+${continueSeries}${recommendations.map(formatRecommendation).join('\n\n')}${excludedText}${fallbackText}${cacheText}
+
+Use respondToRecommendation with a book's number to add it to your want-to-read shelf, pass on it or snooze it.${contextText}`,
+              },
+            ],
+            structuredContent: {
+              request,
+              recommendations,
+              continueSeries: seriesInProgress.slice(0, 3).map(series => ({
+                series: series.series,
+                position: series.nextPosition,
+                title: (series.nextBook ?? series.nextCatalogBook)?.title ?? null,
+                author: (series.nextBook ?? series.nextCatalogBook)?.author ?? series.author,
+              })),
+              contextUsed,
+              excluded,
+              source: cache.source,
+              providers,
+              cache: { hit: cached !== null, key: cache.key, createdAt: cache.createdAt, expiresAt: cache.expiresAt },
+            },
+          };
+        } catch (error) {
+          // The client won't see this reply, but nothing is saved either
+          if (extra.signal.aborted) {
+            console.log("Recommendations cancelled by the client");
+            return { content: [{ type: "text", text: "Cancelled." }] };
+          }
+          console.error("AI recommendation error:", error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Sorry, I had trouble generating recommendations right now. Please try again in a moment.`,
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    this.server.tool(
+      "findSimilarBooks",
+      "Find books similar to a particular book, optionally tweaked (e.g. 'darker', 'shorter', 'more recent'), with the reasons each one is similar",
+      {
+        title: z.string().describe("Title of the book to find similar books to"),
+        author: z.string().optional().describe("Author of the book, to tell apart books with the same title"),
+        tweaks: z.string().max(200).optional().describe("How the books should differ from it (e.g. 'darker', 'but longer', 'more recent')"),
+        count: z.number().int().min(1).max(MAX_SIMILAR_BOOKS).optional().describe(`How many books to find (default ${SIMILAR_BOOKS_COUNT})`),
+      },
+      async ({ title, author, tweaks, count }) => {
+        const wanted = count ?? SIMILAR_BOOKS_COUNT;
+        const preferences = await this.getUserPreferences();
+        
+        let original: CatalogBook | null = findCatalogBook({ title, author });
+        let candidates: CatalogMatch[] = [];
+        try {
+          ({ original, candidates } = await findSimilarCandidates(this.env.AI, getCatalogIndex(this.env), { title, author }, tweaks, preferences, wanted));
+        } catch (error) {
+          console.error("Catalog search error:", error);
+        }
+        const fromCatalog = candidates.length >= wanted;
+        const name = original ? `"${original.title}" by ${original.author}` : `"${title}"${author ? ` by ${author}` : ""}`;
+        
+        // A catalog entry is our own text; a book we couldn't find, and the tweaks, are the user's and go in as data
+        const instructions = [
+          original
+            ? `Recommend ${wanted} ${wanted === 1 ? "book" : "books"} similar to ${describeCatalogBook(original)}`
+            : `Recommend ${wanted} ${wanted === 1 ? "book" : "books"} similar to the book in book.`,
+        ];
+        const data: Record<string, unknown> = {};
+        if (!original) {
+          data.book = { title: sanitizeText(title, MAX_TEXT_LENGTHS.title), ...(author ? { author: sanitizeText(author, MAX_TEXT_LENGTHS.author) } : {}) };
+        }
+        if (tweaks) {
+          data.tweaks = sanitizeText(tweaks, 200);
+          instructions.push(`They want books like it but changed as described in tweaks, so every pick should reflect that.`);
+        }
+        if (fromCatalog) {
+          instructions.push(`Choose only from these books, picking the closest matches, and use their titles and authors exactly as given: ${describeCatalogBooks(candidates.map(candidate => candidate.book))}`);
+        } else {
+          instructions.push(`Recommend specific, real books other than that book itself.`);
+        }
+        instructions.push(`In each reason, say specifically what the book shares with it, such as themes, tone, setting or style${tweaks ? ", and how it fits what they asked for" : ""}.`);
+        const prompt: RecommendationPrompt = { instructions: instructions.join(" "), data };
+        
+        try {
+          const recommender = createRecommender(this.env);
+          const generated = await generateRecommendations(recommender, prompt, preferences, [], wanted, {
+            candidates: fromCatalog ? candidates.map(candidate => candidate.book) : undefined,
+            similarTo: original ?? undefined,
+          });
+          const { excluded, providers } = generated;
+          // The model sometimes suggests the book itself when it isn't limited to the catalog
+          const similar = generated.recommendations
+            .filter(book => !(original ? isSameBook(book, original) : isSameTitle(book.title, title)))
+            .map(book => {
+              const match = candidates.find(candidate => isSameBook(candidate.book, book));
+              return {
+                ...book,
+                similarity: match ? match.score : null,
+                reasons: match && original ? similarityReasons(original, match.book) : [],
+              };
+            });
+          
+          if (similar.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `I couldn't find books like ${name} that you haven't already read or ruled out. Try different tweaks, or ask getBookRecommendations for something broader.`,
+                },
+              ],
+            };
+          }
+          
+          const excludedText = excluded.length > 0
+            ? `\n\n_Left out ${excluded.length} ${excluded.length === 1 ? "book" : "books"} you've already read, shelved or disliked._`
+            : "";
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: `**Books like ${name}${tweaks ? `, but ${tweaks.trim()}` : ""}:**
+
+${similar.map((book, i) => {
+  const details = [book.year ? String(book.year) : null, book.genres.length > 0 ? book.genres.join(", ") : null].filter(Boolean);
+  return `${i + 1}. **${book.title}** by ${book.author}${details.length > 0 ? ` (${details.join("; ")})` : ""}
+   ${book.reason}${book.reasons.length > 0 ? `\n   _${book.reasons.join(" · ")}_` : ""}`;
+}).join('\n\n')}${excludedText}`,
+              },
+            ],
+            structuredContent: {
+              book: original
+                ? { title: original.title, author: original.author, year: original.year, genres: original.genres, inCatalog: true }
+                : { title, author: author ?? null, inCatalog: false },
+              tweaks: tweaks ?? null,
+              similar,
+              excluded,
+              source: fromCatalog ? "catalog" : "model",
+              providers,
+            },
+          };
+        } catch (error) {
+          console.error("AI similar books error:", error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Sorry, I had trouble finding similar books right now. Please try again in a moment.`,
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    this.server.tool(
+      "respondToRecommendation",
+      "Respond to a recommendation: add it to your want-to-read shelf, mark it as not interested or already read, or snooze it. Your responses shape future recommendations",
+      {
+        id: z.number().int().describe("The recommendation's number, shown as [#id] next to each pick"),
+        response: z.enum(["want-to-read", "not-interested", "already-read", "snooze"]).describe("What you make of it"),
+        reason: z.string().optional().describe("Why you're not interested (e.g. 'too bleak'), which steers future recommendations"),
+        rating: z.number().int().min(1).max(5).optional().describe("Your rating, if you've already read it"),
+        snoozeDays: z.number().int().min(1).max(365).optional().describe(`How long before it can be suggested again (default ${DEFAULT_SNOOZE_DAYS} days)`),
+      },
+      async ({ id, response, reason, rating, snoozeDays }) => {
+        const recommendation = await this.userPreferences.getRecommendation(id);
+        if (!recommendation) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `There's no recommendation #${id}. Use getRecommendationHistory to find its number.`,
+              },
+            ],
+          };
+        }
+        
+        const label = bookLabel(recommendation);
+        let text: string;
+        
+        if (response === "want-to-read" || response === "already-read") {
+          const preferences = await this.getUserPreferences();
+          const existing = findOnShelves(preferences, recommendation.title, recommendation.author);
+          const now = new Date().toISOString();
+          const genre = recommendation.genres.map(name => resolveGenre(name)?.genre).find(Boolean);
+          
+          if (response === "want-to-read") {
+            if (existing) {
+              text = `${label} is already on your ${existing.shelf} shelf.`;
+            } else {
+              const entry: ShelvedBook = { title: recommendation.title, author: recommendation.author, dateAdded: now, workId: createWorkId() };
+              if (genre) entry.genre = genre;
+              applySeries(entry);
+              preferences.wantToRead.push(entry);
+              await this.updateUserPreferences(preferences, "respondToRecommendation");
+              text = `Added ${label} to your want-to-read shelf!`;
+            }
+          } else if (existing?.shelf === "read") {
+            text = `${label} is already in your reading list.`;
+          } else {
+            // Reading it takes it off whichever shelf it was waiting on, keeping its identity
+            const [shelvedBook] = existing ? preferences[SHELVES[existing.shelf]].splice(existing.index, 1) : [];
+            const entry: ReadBook = {
+              title: recommendation.title,
+              author: recommendation.author,
+              dateAdded: now,
+              dateFinished: now,
+              workId: shelvedBook?.workId || createWorkId(),
+            };
+            if (rating !== undefined) entry.rating = rating;
+            if (genre || shelvedBook?.genre) entry.genre = shelvedBook?.genre ?? genre;
+            applySeries(entry, shelvedBook?.series, shelvedBook?.seriesPosition);
+            preferences.booksRead.push(entry);
+            await this.updateUserPreferences(preferences, "respondToRecommendation");
+            text = `Added ${label}${formatStars(rating)} to your reading list. Use updateBookRead to set when you finished it.`;
+          }
+          await this.userPreferences.setRecommendationFeedback(id, response, null, null);
+        } else if (response === "not-interested") {
+          await this.userPreferences.setRecommendationFeedback(id, "not-interested", reason?.trim() || null, null);
+          text = `Got it, you're not interested in ${label}${reason ? ` (${reason.trim()})` : ""}. It won't be suggested again, and future recommendations will steer away from books like it.`;
+        } else {
+          const days = snoozeDays ?? DEFAULT_SNOOZE_DAYS;
+          const until = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+          await this.userPreferences.setRecommendationFeedback(id, "snoozed", null, until);
+          text = `Snoozed ${label} for ${days} days. It may be suggested again after ${until.slice(0, 10)}.`;
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getRecommendationHistory",
+      "List past recommendations and how you responded to each",
+      {
+        status: z.enum(["pending", "want-to-read", "not-interested", "already-read", "snoozed"]).optional().describe("Only show recommendations with this response"),
+        limit: z.number().int().min(1).max(100).optional().describe("How many to show (default 20)"),
+      },
+      async ({ status, limit }) => {
+        const history = await this.userPreferences.getRecommendationHistory(limit ?? 20, status);
+        
+        if (history.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: status
+                  ? `No recommendations marked "${RECOMMENDATION_STATUS_LABELS[status]}".`
+                  : `No recommendations yet. Use getBookRecommendations to get some.`,
+              },
+            ],
+          };
+        }
+        
+        // Group by batch, newest first
+        const batches = new Map<string, Recommendation[]>();
+        for (const recommendation of history) {
+          const batch = batches.get(recommendation.recommendedAt) ?? [];
+          batch.push(recommendation);
+          batches.set(recommendation.recommendedAt, batch);
+        }
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Recommendation history:**
+
+${[...batches.entries()].map(([recommendedAt, batch]) => `**${recommendedAt.slice(0, 10)}**
+${batch.map(formatRecommendationHistoryEntry).join('\n')}`).join('\n\n')}`,
+            },
+          ],
+        };
+      }
+    );
+
+    // ================== READING GROUPS ==================
+    // Groups need a GitHub login to tell members apart, so they aren't available to anonymous sessions
+
+    this.server.tool(
+      "createReadingGroup",
+      "Start a reading group or book club. You'll be its owner and get an invite code to share with the other members",
+      {
+        name: z.string().min(1).max(100).describe("The group's name (e.g. 'Thursday Book Club')"),
+      },
+      async ({ name }) => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const groupId = createGroupId();
+        const group = await this.readingGroup(groupId).create(groupId, name, { login, name: this.props.name || login });
+        const invite = group ? await this.readingGroup(groupId).createInvite(login) : null;
+        if (!group || !invite) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Sorry, I couldn't create the group. Please try again.`,
+              },
+            ],
+          };
+        }
+        await this.userPreferences.addGroupMembership({ groupId, name: group.name, role: "owner", joinedAt: group.createdAt });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ Created **${group.name}** (group ID \`${group.id}\`).
+
+Share this invite code with one person: \`${invite.code}\`. Each code works once and expires on ${invite.expiresAt.slice(0, 10)}; use inviteToReadingGroup for more.
+
+Your profile isn't shared with the group yet. Use shareProfileWithGroup when you're happy for getGroupRecommendations to use it.`,
+            },
+          ],
+          structuredContent: { group, invite },
+        };
+      }
+    );
+
+    this.server.tool(
+      "inviteToReadingGroup",
+      "Create an invite code for a reading group you own. Each code lets one person join",
+      {
+        groupId: z.string().describe("The group's ID, from getReadingGroups"),
+      },
+      async ({ groupId }) => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const invite = await this.readingGroup(groupId).createInvite(login);
+        if (!invite) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Only a group's owner can invite people, and you don't own a group with ID "${groupId}". Use getReadingGroups to see your groups.`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Invite code: \`${invite.code}\`
+
+It works once and expires on ${invite.expiresAt.slice(0, 10)}. The person you send it to can join with joinReadingGroup.`,
+            },
+          ],
+          structuredContent: { invite },
+        };
+      }
+    );
+
+    this.server.tool(
+      "joinReadingGroup",
+      "Join a reading group with an invite code. Your profile isn't shared with the group until you opt in",
+      {
+        inviteCode: z.string().describe("The invite code from the group's owner"),
+      },
+      async ({ inviteCode }) => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const groupId = parseInviteCode(inviteCode);
+        const group = groupId ? await this.readingGroup(groupId).join(inviteCode, { login, name: this.props.name || login }) : null;
+        if (!groupId || !group) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `That invite code isn't valid. It may have been used already or expired; ask the group's owner for a new one.`,
+              },
+            ],
+          };
+        }
+        const member = group.members.find(m => m.login === login);
+        await this.userPreferences.addGroupMembership({ groupId, name: group.name, role: member?.role ?? "member", joinedAt: member?.joinedAt ?? new Date().toISOString() });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ You've joined **${group.name}**.
+
+${formatGroupMembers(group)}
+
+Your profile isn't shared yet. When you're ready for the group's recommendations to take your reading history and preferences into account, use shareProfileWithGroup. The other members will see how each pick fits your taste.`,
+            },
+          ],
+          structuredContent: { group },
+        };
+      }
+    );
+
+    this.server.tool(
+      "shareProfileWithGroup",
+      "Opt in to (or out of) sharing your reading profile with a reading group. Group recommendations only use the profiles of members who have opted in, and show every member how each pick fits them",
+      {
+        groupId: z.string().describe("The group's ID, from getReadingGroups"),
+        share: z.boolean().describe("true to share your profile with the group, false to stop sharing it"),
+      },
+      async ({ groupId, share }) => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const group = await this.readingGroup(groupId).setSharing(login, share);
+        if (!group) return notInGroup(groupId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: share
+                ? `✅ Your profile is now shared with **${group.name}**. Its recommendations will take your books, ratings, favorite authors and genres into account, and every member will see how each pick fits you. Use shareProfileWithGroup with share set to false to stop at any time.`
+                : `✅ You've stopped sharing your profile with **${group.name}**. Its recommendations won't use it from now on.`,
+            },
+          ],
+          structuredContent: { group },
+        };
+      }
+    );
+
+    this.server.tool(
+      "getReadingGroups",
+      "List your reading groups, their members and who has opted in to sharing their profile",
+      {},
+      async () => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const memberships = await this.userPreferences.getGroupMemberships();
+        const groups: ReadingGroupInfo[] = [];
+        for (const membership of memberships) {
+          const group = await this.readingGroup(membership.groupId).getGroup(login);
+          // Removed by the owner since; forget the group
+          if (group) groups.push(group);
+          else await this.userPreferences.removeGroupMembership(membership.groupId);
+        }
+
+        if (groups.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `You're not in any reading groups. Start one with createReadingGroup, or join one with an invite code using joinReadingGroup.`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Your reading groups:**
+
+${groups.map(group => `**${group.name}** (ID \`${group.id}\`${group.owner === login ? ", you're the owner" : ""})
+${formatGroupMembers(group)}`).join('\n\n')}`,
+            },
+          ],
+          structuredContent: { groups },
+        };
+      }
+    );
+
+    this.server.tool(
+      "leaveReadingGroup",
+      "Leave a reading group, or as its owner, remove a member from it",
+      {
+        groupId: z.string().describe("The group's ID, from getReadingGroups"),
+        member: z.string().optional().describe("GitHub login of the member to remove, if you're the owner (default: yourself)"),
+      },
+      async ({ groupId, member }) => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const group = await this.readingGroup(groupId).getGroup(login);
+        if (!group) return notInGroup(groupId);
+        const target = member ?? login;
+
+        let text: string;
+        if (target === group.owner) {
+          text = `The owner can't leave ${group.name}, since it needs someone to invite people.`;
+        } else if (target !== login && group.owner !== login) {
+          text = `Only the owner of ${group.name} can remove other members.`;
+        } else if (!(await this.readingGroup(groupId).removeMember(login, target))) {
+          text = `${target} isn't a member of ${group.name}.`;
+        } else {
+          // Their profile stops being used straight away; the group also drops out of their list
+          await this.preferencesFor(target).removeGroupMembership(groupId);
+          text = target === login ? `✅ You've left ${group.name}.` : `✅ Removed ${target} from ${group.name}.`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getGroupRecommendations",
+      "Get books for a reading group to read together, based on the profiles of members who have opted in. Leaves out anything any of them has read or disliked, and explains how each pick fits each member",
+      {
+        groupId: z.string().describe("The group's ID, from getReadingGroups"),
+        count: z.number().int().min(1).max(MAX_GROUP_RECOMMENDATION_COUNT).optional().describe(`How many books to recommend (default ${GROUP_RECOMMENDATION_COUNT})`),
+        constraints: z.string().max(500).optional().describe("Anything else the books should be (e.g. 'easy to find in paperback', 'under 400 pages')"),
+      },
+      async ({ groupId, count, constraints }) => {
+        const login = this.props?.login;
+        if (!login) return signInToUseGroups();
+
+        const group = await this.readingGroup(groupId).getGroup(login);
+        if (!group) return notInGroup(groupId);
+
+        const notSharing = group.members.filter(member => !member.sharing);
+        if (notSharing.length === group.members.length) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No one in ${group.name} has opted in to sharing their profile yet, so there's nothing to base recommendations on. Each member can opt in with shareProfileWithGroup.`,
+              },
+            ],
+          };
+        }
+
+        // Only the profiles of members who opted in are ever read
+        const members: SharingMember[] = [];
+        for (const member of group.members.filter(m => m.sharing)) {
+          const preferences: BookPreferences = await this.preferencesFor(member.login).getPreferences();
+          members.push({ login: member.login, name: member.name, preferences });
+        }
+        const merged = mergeGroupPreferences(members);
+
+        const wanted = count ?? GROUP_RECOMMENDATION_COUNT;
+        const request: RecommendationRequest = { count: wanted, constraints: constraints ? sanitizeText(constraints, 500) || undefined : undefined };
+
+        // As in getBookRecommendations, everything from the members' profiles goes in as data
+        const instructions = [
+          `Recommend ${wanted} ${wanted === 1 ? "book" : "books"} for a reading group to read together. Each reader in members lists what their profile says about their taste.`,
+          `Choose books that as many of them as possible would enjoy, and avoid books any of them would likely dislike. A book in one reader's wantToRead is a good pick if it suits the others too.`,
+          `In each reason, say why it suits the group as a whole.`,
+        ];
+        const data: Record<string, unknown> = { members: groupMemberData(members) };
+        const filters = describeRecommendationRequest(request);
+        if (filters) instructions.push(filters);
+        const requestData = recommendationRequestData(request);
+        if (Object.keys(requestData).length > 0) data.request = requestData;
+
+        let candidates: CatalogMatch[] = [];
+        try {
+          candidates = await findCatalogCandidates(this.env.AI, getCatalogIndex(this.env), merged, request, [], wanted);
+        } catch (error) {
+          console.error("Catalog search error:", error);
+        }
+        const fromCatalog = candidates.length >= wanted;
+        if (fromCatalog) {
+          instructions.push(`Choose only from these books, picking the ones that best suit the whole group, and use their titles and authors exactly as given: ${describeCatalogBooks(candidates.map(candidate => candidate.book))}`);
+        } else {
+          instructions.push(`Recommend specific, real books.`);
+        }
+        instructions.push(`Avoid recommending books any of them have already read, are reading or gave up on, and authors any of them dislike.`);
+        const prompt: RecommendationPrompt = { instructions: instructions.join(" "), data };
+
+        try {
+          const recommender = createRecommender(this.env);
+          const generated = await generateRecommendations(recommender, prompt, merged, [], wanted, {
+            filters: request,
+            candidates: fromCatalog ? candidates.map(candidate => candidate.book) : undefined,
+          });
+          const { providers } = generated;
+          const recommendations = generated.recommendations.map(book => ({ ...book, fits: members.map(member => describeMemberFit(book, member)) }));
+          // Say whose shelf each left-out book was on, rather than just that it was on one
+          const excluded = generated.excluded.map(book => ({ ...book, reason: describeGroupExclusion(book, members) ?? book.reason }));
+
+          if (recommendations.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `I couldn't find books for ${group.name} that none of you has read or ruled out. Try again with fewer constraints.`,
+                },
+              ],
+            };
+          }
+
+          const excludedText = excluded.length > 0
+            ? `\n\n_Left out ${excluded.map(book => `"${book.title}" (${book.reason})`).join(", ")}._`
+            : "";
+
+          const notSharingText = notSharing.length > 0
+            ? `\n\n_${notSharing.map(member => member.name).join(", ")} ${notSharing.length === 1 ? "hasn't" : "haven't"} opted in to sharing, so ${notSharing.length === 1 ? "their profile isn't" : "their profiles aren't"} taken into account._`
+            : "";
+
+          const fallbackText = providers.includes(RULES_RECOMMENDER) && recommender.name !== RULES_RECOMMENDER
+            ? "\n\n_The AI model wasn't available, so some of these are matched on the group's favorite authors and genres alone._"
+            : "";
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `**Picks for ${group.name}** (based on ${members.map(member => member.name).join(", ")}):
+
+${recommendations.map((book, i) => {
+  const details = [book.year ? String(book.year) : null, book.genres.length > 0 ? book.genres.join(", ") : null].filter(Boolean);
+  return `${i + 1}. **${book.title}** by ${book.author}${details.length > 0 ? ` (${details.join("; ")})` : ""}
+   ${book.reason}
+${book.fits.map(fit => `   • ${fit.name}: ${fit.fit}`).join('\n')}`;
+}).join('\n\n')}${excludedText}${notSharingText}${fallbackText}`,
+              },
+            ],
+            structuredContent: {
+              group: { id: group.id, name: group.name },
+              members: members.map(member => ({ login: member.login, name: member.name })),
+              notSharing: notSharing.map(member => ({ login: member.login, name: member.name })),
+              request,
+              recommendations,
+              excluded,
+              source: fromCatalog ? "catalog" : "model",
+              providers,
+            },
+          };
+        } catch (error) {
+          console.error("AI group recommendation error:", error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Sorry, I had trouble generating recommendations for the group right now. Please try again in a moment.`,
               },
             ],
           };
@@ -572,6 +3351,11 @@ export default new OAuthProvider({
         maxAge: 86400
       }
     }),
+    // CSV library uploads, too large to pass through a tool call
+    '/import': LibraryImportHandler,
+    '/export': ProfileExportHandler,
+    // OPDS catalogs for e-reader apps, served by the same Hono app as the OAuth flow
+    '/opds': GitHubHandler,
   },
   
   // The default handler handles OAuth flow and other non-API requests
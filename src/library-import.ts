@@ -0,0 +1,333 @@
+// Importing Goodreads and StoryGraph CSV exports into a user's preferences
+
+import type { BookPreferences, CurrentlyReadingBook, DidNotFinishBook, ReadBook, ShelvedBook } from "./preferences";
+import { BookIndex, createWorkId, isSameAuthor, normalizeIsbn } from "./book-identity";
+import { parseSeriesFromTitle } from "./series";
+
+// Large enough for long-time Goodreads users, small enough to fit in one request (planning 5,000 rows takes well under a second)
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ImportFormat = "goodreads" | "storygraph";
+export type ImportShelf = "read" | "want-to-read" | "currently-reading" | "did-not-finish";
+
+// One book from an export, mapped onto this app's fields
+export interface ImportRow {
+  line: number;
+  title: string;
+  author: string;
+  shelf: ImportShelf | null;
+  // The shelf as named in the export, for reporting shelves that couldn't be mapped
+  sourceShelf: string;
+  isbn?: string;
+  rating?: number;
+  review?: string;
+  dateRead?: string;
+  dateAdded?: string;
+  pages?: number;
+  readCount?: number;
+}
+
+export interface ImportReportEntry {
+  line: number;
+  title: string;
+  author: string;
+  shelf: string;
+  note: string;
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  imported: ImportReportEntry[];
+  skipped: ImportReportEntry[];
+  ambiguous: ImportReportEntry[];
+}
+
+export class ImportError extends Error {}
+
+const SHELF_LISTS = {
+  read: "booksRead",
+  "want-to-read": "wantToRead",
+  "currently-reading": "currentlyReading",
+  "did-not-finish": "didNotFinish",
+} as const;
+
+// How far along each shelf is; an import only ever moves a book forwards
+const SHELF_ORDER: Record<ImportShelf, number> = {
+  "want-to-read": 0,
+  "currently-reading": 1,
+  "did-not-finish": 2,
+  read: 3,
+};
+
+// Export shelf names, as both services write them, mapped onto ours
+const SHELF_ALIASES: Record<string, ImportShelf> = {
+  read: "read",
+  "to-read": "want-to-read",
+  "want-to-read": "want-to-read",
+  "currently-reading": "currently-reading",
+  "did-not-finish": "did-not-finish",
+  dnf: "did-not-finish",
+};
+
+/**
+ * Parses CSV text into rows of fields, following RFC 4180: quoted fields may contain commas,
+ * doubled quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+export function detectFormat(headers: string[]): ImportFormat | null {
+  if (headers.includes("Exclusive Shelf") && headers.includes("My Rating")) return "goodreads";
+  if (headers.includes("Read Status") && headers.includes("Star Rating")) return "storygraph";
+  return null;
+}
+
+// Goodreads wraps ISBNs as ="0123456789" so spreadsheets keep the leading zeros
+function cleanIsbn(value: string): string | undefined {
+  const digits = value.replace(/^="?|"$/g, "").trim();
+  return digits ? normalizeIsbn(digits) ?? undefined : undefined;
+}
+
+// Both services write dates as 2024/03/15
+function cleanDate(value: string): string | undefined {
+  const text = value.trim().replace(/\//g, "-");
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function cleanNumber(value: string): number | undefined {
+  const number = Number(value.trim());
+  return value.trim() && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Reads a Goodreads or StoryGraph CSV export.
+ * @throws ImportError if the file isn't a recognised export or is too large.
+ */
+export function parseLibraryExport(text: string): { format: ImportFormat; rows: ImportRow[] } {
+  const [headers, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const format = headers ? detectFormat(headers.map(header => header.trim())) : null;
+  if (!headers || !format) {
+    throw new ImportError("This doesn't look like a Goodreads or StoryGraph export. Export your library as CSV from either site and upload it unchanged.");
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`This export has ${records.length} books; imports are limited to ${MAX_IMPORT_ROWS} at a time.`);
+  }
+
+  const column = (record: string[], name: string) => record[headers.findIndex(header => header.trim() === name)]?.trim() ?? "";
+
+  const rows = records.map((record, index): ImportRow => {
+    const line = index + 2;
+    if (format === "goodreads") {
+      const sourceShelf = column(record, "Exclusive Shelf");
+      return {
+        line,
+        title: column(record, "Title"),
+        author: column(record, "Author"),
+        shelf: SHELF_ALIASES[sourceShelf.toLowerCase()] ?? null,
+        sourceShelf,
+        isbn: cleanIsbn(column(record, "ISBN13")) ?? cleanIsbn(column(record, "ISBN")),
+        rating: cleanNumber(column(record, "My Rating")),
+        review: column(record, "My Review").replace(/<br\s*\/?>/gi, "\n") || undefined,
+        dateRead: cleanDate(column(record, "Date Read")),
+        dateAdded: cleanDate(column(record, "Date Added")),
+        pages: cleanNumber(column(record, "Number of Pages")),
+        readCount: cleanNumber(column(record, "Read Count")),
+      };
+    }
+
+    const sourceShelf = column(record, "Read Status");
+    const stars = cleanNumber(column(record, "Star Rating"));
+    return {
+      line,
+      title: column(record, "Title"),
+      // StoryGraph lists co-authors together; the first is the primary author
+      author: column(record, "Authors").split(",")[0].trim(),
+      shelf: SHELF_ALIASES[sourceShelf.toLowerCase()] ?? null,
+      sourceShelf,
+      isbn: cleanIsbn(column(record, "ISBN/UID")),
+      // StoryGraph allows quarter stars; ratings here are whole stars
+      rating: stars ? Math.min(5, Math.max(1, Math.round(stars))) : undefined,
+      review: column(record, "Review") || undefined,
+      dateRead: cleanDate(column(record, "Last Date Read")),
+      dateAdded: cleanDate(column(record, "Date Added")),
+      readCount: cleanNumber(column(record, "Read Count")),
+    };
+  });
+
+  return { format, rows };
+}
+
+function toBook(row: ImportRow, shelf: ImportShelf, workId: string): ShelvedBook {
+  const now = new Date().toISOString();
+  const book: ShelvedBook = { title: row.title, author: row.author, dateAdded: row.dateAdded || now, workId };
+  if (row.isbn) book.isbn = row.isbn;
+  const series = parseSeriesFromTitle(row.title);
+  if (series) {
+    book.series = series.series;
+    book.seriesPosition = series.position;
+  }
+
+  switch (shelf) {
+    case "read": {
+      const readBook: ReadBook = { ...book, dateFinished: row.dateRead || book.dateAdded };
+      if (row.rating) readBook.rating = row.rating;
+      if (row.review) readBook.review = row.review;
+      if (row.pages) readBook.pages = row.pages;
+      if (row.readCount && row.readCount > 1) readBook.rereadCount = row.readCount - 1;
+      return readBook;
+    }
+    case "currently-reading": {
+      const reading: CurrentlyReadingBook = { ...book, dateStarted: book.dateAdded };
+      if (row.pages) reading.totalPages = row.pages;
+      return reading;
+    }
+    case "did-not-finish":
+      return { ...book } as DidNotFinishBook;
+    case "want-to-read":
+      return book;
+  }
+}
+
+/**
+ * Merges imported rows into a copy of the user's preferences. Rows matching a book already in the
+ * library are skipped, unless the export has it on a later shelf (want-to-read → read), in which case
+ * it moves forwards. Rows that could be one of several books, or share a title with a book by a different
+ * author, are left out and reported as ambiguous.
+ */
+export function planImport(preferences: BookPreferences, format: ImportFormat, rows: ImportRow[]): { preferences: BookPreferences; report: ImportReport } {
+  const result = structuredClone(preferences);
+  const report: ImportReport = { format, imported: [], skipped: [], ambiguous: [] };
+  const entry = (row: ImportRow, note: string): ImportReportEntry => ({
+    line: row.line,
+    title: row.title,
+    author: row.author,
+    shelf: row.shelf ?? row.sourceShelf,
+    note,
+  });
+
+  // Indexed up front and kept up to date, so each row is only compared with books it could plausibly be
+  const disliked = new BookIndex(result.dislikedBooks.map(book => [book, book]));
+  const shelved = new BookIndex<{ shelf: ImportShelf; book: ShelvedBook }>(
+    (Object.keys(SHELF_LISTS) as ImportShelf[]).flatMap(shelf =>
+      (result[SHELF_LISTS[shelf]] as ShelvedBook[]).map(book => [book, { shelf, book }] as [ShelvedBook, { shelf: ImportShelf; book: ShelvedBook }])
+    )
+  );
+
+  for (const row of rows) {
+    if (!row.title || !row.author) {
+      report.skipped.push(entry(row, "missing a title or author"));
+      continue;
+    }
+    if (!row.shelf) {
+      report.skipped.push(entry(row, `shelf "${row.sourceShelf}" has no equivalent here`));
+      continue;
+    }
+    if (disliked.find(row).length > 0) {
+      report.skipped.push(entry(row, "already in your disliked books"));
+      continue;
+    }
+
+    const matches = shelved.find(row);
+
+    if (matches.length > 1) {
+      report.ambiguous.push(entry(row, `matches ${matches.length} books already in your library`));
+      continue;
+    }
+
+    if (matches.length === 0) {
+      const sameTitle = row.isbn ? undefined : shelved.findByTitle(row.title).find(match => !isSameAuthor(match.book.author, row.author))?.book;
+      if (sameTitle) {
+        report.ambiguous.push(entry(row, `same title as "${sameTitle.title}" by ${sameTitle.author}; add it by hand if it's a different book`));
+        continue;
+      }
+      const added = toBook(row, row.shelf, createWorkId());
+      (result[SHELF_LISTS[row.shelf]] as ShelvedBook[]).push(added);
+      shelved.add(added, { shelf: row.shelf, book: added });
+      report.imported.push(entry(row, "added"));
+      continue;
+    }
+
+    const [match] = matches;
+    if (SHELF_ORDER[row.shelf] <= SHELF_ORDER[match.shelf]) {
+      report.skipped.push(entry(row, `already on your ${match.shelf} shelf`));
+      continue;
+    }
+    const list = result[SHELF_LISTS[match.shelf]] as ShelvedBook[];
+    list.splice(list.indexOf(match.book), 1);
+    shelved.remove(match);
+    const moved = toBook(row, row.shelf, match.book.workId || createWorkId());
+    if (match.book.genre) moved.genre = match.book.genre;
+    (result[SHELF_LISTS[row.shelf]] as ShelvedBook[]).push(moved);
+    shelved.add(moved, { shelf: row.shelf, book: moved });
+    report.imported.push(entry(row, `moved from ${match.shelf}`));
+  }
+
+  return { preferences: result, report };
+}
+
+/**
+ * Summarizes an import report as markdown, listing skipped and ambiguous rows individually.
+ */
+export function formatImportReport(report: ImportReport, dryRun: boolean): string {
+  const source = report.format === "goodreads" ? "Goodreads" : "StoryGraph";
+  const list = (entries: ImportReportEntry[]) =>
+    entries.slice(0, 20).map(row => `• Line ${row.line}: "${row.title}" by ${row.author} (${row.note})`).join("\n") +
+    (entries.length > 20 ? `\n• ...and ${entries.length - 20} more` : "");
+
+  const byShelf = new Map<string, number>();
+  for (const row of report.imported) byShelf.set(row.shelf, (byShelf.get(row.shelf) ?? 0) + 1);
+  const shelves = [...byShelf.entries()].map(([shelf, count]) => `${shelf}: ${count}`).join(", ");
+
+  return `**${source} import ${dryRun ? "preview" : "complete"}**
+
+**${dryRun ? "Would import" : "Imported"}:** ${report.imported.length} books${shelves ? ` (${shelves})` : ""}
+**Skipped:** ${report.skipped.length}
+**Ambiguous:** ${report.ambiguous.length}
+${report.ambiguous.length > 0 ? `
+**Needs a closer look:**
+${list(report.ambiguous)}
+` : ""}${report.skipped.length > 0 ? `
+**Skipped rows:**
+${list(report.skipped)}
+` : ""}
+${dryRun ? "Nothing has been saved yet. Run the import again with dryRun set to false to apply it." : "The whole import can be reverted with undoLastChange."}`;
+}
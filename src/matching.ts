@@ -0,0 +1,63 @@
+// String matching helpers for finding entries in a user's preference lists
+
+/**
+ * Levenshtein edit distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two strings from 0 (nothing alike) to 1 (equal, ignoring case and surrounding whitespace).
+ */
+export function similarity(a: string, b: string): number {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(left, right) / longest;
+}
+
+/**
+ * Finds an entry in a list of names, ignoring case and surrounding whitespace.
+ * @returns The index of the entry, or -1 if there is none.
+ */
+export function findNameIndex(names: string[], name: string): number {
+  const wanted = name.trim().toLowerCase();
+  return names.findIndex(entry => entry.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Suggests the closest candidates for a query that didn't match exactly.
+ * Candidates containing the query (or contained by it) are always suggested.
+ * @param query - What the user typed.
+ * @param candidates - Entries to compare against.
+ * @param limit - Maximum number of suggestions.
+ * @returns The best candidates, most similar first.
+ */
+export function suggestMatches(query: string, candidates: string[], limit = 3): string[] {
+  const wanted = query.trim().toLowerCase();
+  return candidates
+    .map(candidate => {
+      const normalized = candidate.trim().toLowerCase();
+      const contains = wanted.length > 2 && (normalized.includes(wanted) || wanted.includes(normalized));
+      return { candidate, score: contains ? Math.max(0.75, similarity(wanted, normalized)) : similarity(wanted, normalized) };
+    })
+    .filter(match => match.score >= 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(match => match.candidate);
+}
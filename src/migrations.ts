@@ -0,0 +1,478 @@
+// Versioned schema migrations for the UserBookPreferences SQLite database
+
+import { editDistance } from "./matching";
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (storage: DurableObjectStorage) => void | Promise<void>;
+}
+
+// Shape of the single "preferences" value stored before the move to SQLite
+interface LegacyPreferences {
+  userName?: string;
+  favoriteGenres?: string[];
+  favoriteAuthors?: string[];
+  dislikedAuthors?: string[];
+  [list: string]: unknown;
+}
+
+// Legacy book lists and the shelf each one was imported into
+const LEGACY_BOOK_LISTS: Record<string, string> = {
+  booksRead: "read",
+  dislikedBooks: "disliked",
+  wantToRead: "want-to-read",
+  currentlyReading: "currently-reading",
+  didNotFinish: "did-not-finish",
+};
+
+// Genre names and their synonyms as they were when version 5 was released, so later edits to the
+// taxonomy in genres.ts don't change how that migration maps existing genres
+const V5_GENRE_SYNONYMS: Record<string, string[]> = {
+  fiction: ["novels"],
+  "literary fiction": ["literary", "litfic", "lit fic"],
+  "magical realism": [],
+  classics: ["classic", "classic literature"],
+  "historical fiction": ["hist fic", "historical novels"],
+  "science fiction": ["sci-fi", "scifi", "sf", "sci fi", "science-fiction", "speculative fiction"],
+  "space opera": [],
+  "hard science fiction": ["hard sf", "hard sci-fi"],
+  cyberpunk: [],
+  dystopian: ["dystopia", "dystopian fiction"],
+  "post-apocalyptic": ["post apocalyptic", "apocalyptic"],
+  "military science fiction": ["military sf", "military sci-fi"],
+  fantasy: [],
+  "epic fantasy": ["high fantasy"],
+  "urban fantasy": [],
+  grimdark: ["dark fantasy"],
+  "cozy fantasy": ["cosy fantasy"],
+  "sword and sorcery": ["sword & sorcery"],
+  "fairy tale retellings": ["fairy tales", "retellings", "myth retellings"],
+  mystery: ["mysteries", "whodunit", "whodunnit", "crime", "crime fiction"],
+  "cozy mystery": ["cosy mystery", "cozy crime", "cozies"],
+  "detective fiction": ["detective", "private investigator"],
+  "police procedural": ["procedural"],
+  noir: ["hardboiled", "hard-boiled"],
+  thriller: ["thrillers", "suspense"],
+  "psychological thriller": ["domestic thriller"],
+  "legal thriller": ["courtroom drama"],
+  "spy thriller": ["espionage", "spy fiction"],
+  "techno-thriller": ["techno thriller"],
+  horror: ["scary", "spooky"],
+  gothic: ["gothic fiction", "gothic horror"],
+  "cosmic horror": ["lovecraftian", "weird fiction"],
+  "supernatural horror": ["ghost stories", "paranormal horror"],
+  romance: ["romance novels", "love stories"],
+  "contemporary romance": [],
+  "historical romance": ["regency romance"],
+  "romantic comedy": ["romcom", "rom-com", "rom com"],
+  romantasy: ["fantasy romance"],
+  "young adult": ["ya", "teen", "young adult fiction"],
+  "middle grade": ["mg", "children's", "childrens", "kids"],
+  "graphic novels": ["comics", "manga", "graphic novel"],
+  poetry: ["poems", "verse"],
+  nonfiction: ["non-fiction", "non fiction", "nf"],
+  biography: ["biographies", "bio"],
+  memoir: ["memoirs", "autobiography"],
+  history: ["history books", "narrative history"],
+  "popular science": ["science", "pop science", "pop sci"],
+  "true crime": [],
+  "self-help": ["self help", "personal development", "self improvement"],
+  philosophy: [],
+  business: ["business books", "economics"],
+  travel: ["travel writing", "travelogue"],
+  essays: ["essay collections"],
+};
+
+function normalizeV5GenreText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[_/]/g, " ")
+    .replace(/\s+(books|novels|fiction books)$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const V5_GENRE_LOOKUP = new Map<string, string>();
+for (const [genre, synonyms] of Object.entries(V5_GENRE_SYNONYMS)) {
+  V5_GENRE_LOOKUP.set(genre, genre);
+  for (const synonym of synonyms) V5_GENRE_LOOKUP.set(normalizeV5GenreText(synonym), genre);
+}
+
+// resolveGenre as it was at version 5: by name or synonym (including simple plurals), or by a close spelling
+function resolveV5Genre(text: string): string | null {
+  const normalized = normalizeV5GenreText(text);
+  if (!normalized) return null;
+
+  const variants = [normalized, normalized.replace(/ies$/, "y"), normalized.replace(/s$/, ""), normalized.replace(/-/g, " ")];
+  for (const candidate of variants) {
+    const genre = V5_GENRE_LOOKUP.get(candidate);
+    if (genre) return genre;
+  }
+
+  let best: { genre: string; score: number } | null = null;
+  for (const [term, genre] of V5_GENRE_LOOKUP) {
+    const score = 1 - editDistance(normalized, term) / Math.max(normalized.length, term.length);
+    if (score >= 0.85 && (!best || score > best.score)) best = { genre, score };
+  }
+  return best?.genre ?? null;
+}
+
+// Series suffixes like "(Discworld #8)" or "[Expanse, Book 3]" as parsed when version 8 was released
+const V8_SERIES_IN_TITLE = /\s*[([]\s*([^)\]#]*?)[\s,]*(?:#\s*|book\s+|vol(?:ume)?\.?\s*)(\d+(?:\.\d+)?)\s*[)\]]\s*$/i;
+
+// Migrations must stay frozen once released: they describe the schema as it was at that version,
+// so they use their own SQL rather than the current read/write helpers.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create profile, books, authors, genres and events tables",
+    up: (storage) => {
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS profile (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS books (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          shelf TEXT NOT NULL,
+          title TEXT NOT NULL,
+          author TEXT NOT NULL,
+          date_added TEXT NOT NULL,
+          rating INTEGER,
+          review TEXT,
+          date_finished TEXT,
+          reread_count INTEGER,
+          date_started TEXT,
+          current_page INTEGER,
+          total_pages INTEGER,
+          percent_complete REAL,
+          stopped_at TEXT,
+          reason TEXT
+        );
+        CREATE INDEX IF NOT EXISTS books_shelf ON books (shelf);
+        CREATE TABLE IF NOT EXISTS authors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          sentiment TEXT NOT NULL CHECK (sentiment IN ('favorite', 'disliked')),
+          date_added TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS genres (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          date_added TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          data TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Import the legacy preferences blob into the tables",
+    up: async (storage) => {
+      const legacy = await storage.get<LegacyPreferences>("preferences");
+      if (!legacy) return;
+
+      const now = new Date().toISOString();
+      storage.transactionSync(() => {
+        // Start from empty tables so a retried import never duplicates rows
+        storage.sql.exec("DELETE FROM profile; DELETE FROM books; DELETE FROM authors; DELETE FROM genres;");
+
+        storage.sql.exec("INSERT INTO profile (key, value) VALUES ('userName', ?)", legacy.userName || "");
+        for (const name of new Set(legacy.favoriteGenres || [])) {
+          storage.sql.exec("INSERT INTO genres (name, date_added) VALUES (?, ?)", name, now);
+        }
+        for (const name of legacy.favoriteAuthors || []) {
+          storage.sql.exec("INSERT INTO authors (name, sentiment, date_added) VALUES (?, 'favorite', ?)", name, now);
+        }
+        for (const name of legacy.dislikedAuthors || []) {
+          storage.sql.exec("INSERT INTO authors (name, sentiment, date_added) VALUES (?, 'disliked', ?)", name, now);
+        }
+
+        let books = 0;
+        for (const [list, shelf] of Object.entries(LEGACY_BOOK_LISTS)) {
+          const entries = Array.isArray(legacy[list]) ? (legacy[list] as Array<Record<string, any>>) : [];
+          for (const book of entries) {
+            storage.sql.exec(
+              `INSERT INTO books (shelf, title, author, date_added, rating, review, date_finished, reread_count,
+                date_started, current_page, total_pages, percent_complete, stopped_at, reason)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              shelf,
+              book.title,
+              book.author,
+              book.dateAdded || now,
+              book.rating ?? null,
+              book.review ?? null,
+              book.dateFinished ?? null,
+              book.rereadCount ?? null,
+              book.dateStarted ?? (shelf === "currently-reading" ? book.dateAdded || now : null),
+              book.currentPage ?? null,
+              book.totalPages ?? null,
+              book.percentComplete ?? null,
+              book.stoppedAt ?? null,
+              book.reason ?? null
+            );
+            books++;
+          }
+        }
+
+        storage.sql.exec(
+          "INSERT INTO events (type, created_at, data) VALUES ('migrated-from-blob', ?, ?)",
+          now,
+          JSON.stringify({ books, genres: legacy.favoriteGenres?.length ?? 0 })
+        );
+      });
+
+      await storage.delete("preferences");
+    },
+  },
+  {
+    version: 3,
+    description: "Track who made each change, through which tool, and the before/after diff for undo",
+    up: (storage) => {
+      storage.sql.exec(`
+        ALTER TABLE events ADD COLUMN actor TEXT;
+        ALTER TABLE events ADD COLUMN tool TEXT;
+        ALTER TABLE events ADD COLUMN diff TEXT;
+        ALTER TABLE events ADD COLUMN status TEXT;
+        ALTER TABLE events ADD COLUMN undone_at TEXT;
+        CREATE INDEX events_status ON events (status);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Add ISBNs and stable work IDs to books",
+    up: (storage) => {
+      storage.sql.exec(`
+        ALTER TABLE books ADD COLUMN isbn TEXT;
+        ALTER TABLE books ADD COLUMN work_id TEXT;
+        UPDATE books SET work_id = lower(hex(randomblob(16))) WHERE work_id IS NULL;
+        CREATE INDEX books_work_id ON books (work_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Map favorite genres onto the genre taxonomy, keeping the original wording",
+    up: (storage) => {
+      storage.sql.exec("ALTER TABLE genres ADD COLUMN original TEXT");
+
+      // Free-text genres like "sci-fi" and "science fiction" collapse into the earliest canonical row.
+      // Duplicates are deleted before renaming so the UNIQUE name constraint never trips.
+      const keepers = new Map<string, { id: number; name: string }>();
+      for (const row of storage.sql.exec<{ id: number; name: string }>("SELECT id, name FROM genres ORDER BY id").toArray()) {
+        const canonical = resolveV5Genre(row.name) ?? row.name;
+        if (keepers.has(canonical)) {
+          storage.sql.exec("DELETE FROM genres WHERE id = ?", row.id);
+        } else {
+          keepers.set(canonical, row);
+        }
+      }
+      for (const [canonical, row] of keepers) {
+        if (canonical !== row.name) {
+          storage.sql.exec("UPDATE genres SET name = ?, original = ? WHERE id = ?", canonical, row.name, row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    description: "Add page counts to books, reading goals, goal progress snapshots and reminders",
+    up: (storage) => {
+      storage.sql.exec(`
+        ALTER TABLE books ADD COLUMN pages INTEGER;
+        CREATE TABLE goals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          period TEXT NOT NULL CHECK (period IN ('year', 'month')),
+          metric TEXT NOT NULL CHECK (metric IN ('books', 'pages')),
+          target INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          UNIQUE (period, metric)
+        );
+        CREATE TABLE goal_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          period TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          period_start TEXT NOT NULL,
+          taken_at TEXT NOT NULL,
+          completed INTEGER NOT NULL,
+          target INTEGER NOT NULL,
+          status TEXT NOT NULL
+        );
+        CREATE TABLE reminders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          message TEXT NOT NULL,
+          shown_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "Record a genre on each book",
+    up: (storage) => {
+      storage.sql.exec("ALTER TABLE books ADD COLUMN genre TEXT");
+    },
+  },
+  {
+    version: 8,
+    description: "Add series names and positions to books, filled in from titles like \"(Discworld #8)\"",
+    up: (storage) => {
+      storage.sql.exec(`
+        ALTER TABLE books ADD COLUMN series TEXT;
+        ALTER TABLE books ADD COLUMN series_position REAL;
+      `);
+      for (const row of storage.sql.exec<{ id: number; title: string }>("SELECT id, title FROM books").toArray()) {
+        const match = row.title.match(V8_SERIES_IN_TITLE);
+        if (match && match[1].trim()) {
+          storage.sql.exec("UPDATE books SET series = ?, series_position = ? WHERE id = ?", match[1].trim(), Number(match[2]), row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 9,
+    description: "Add a quotes table for highlights and favorite passages",
+    up: (storage) => {
+      storage.sql.exec(`
+        CREATE TABLE quotes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          text TEXT NOT NULL,
+          title TEXT NOT NULL,
+          author TEXT NOT NULL,
+          work_id TEXT,
+          note TEXT,
+          location TEXT,
+          page TEXT,
+          highlighted_at TEXT,
+          added_at TEXT NOT NULL,
+          source TEXT NOT NULL,
+          favorite INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX quotes_work_id ON quotes (work_id);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: "Add a recommendations table for the latest picks",
+    up: (storage) => {
+      storage.sql.exec(`
+        CREATE TABLE recommendations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          author TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          recommended_at TEXT NOT NULL
+        );
+        CREATE INDEX recommendations_recommended_at ON recommendations (recommended_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "Keep recommendation details and the user's feedback on each one",
+    up: (storage) => {
+      storage.sql.exec(`
+        ALTER TABLE recommendations ADD COLUMN year INTEGER;
+        ALTER TABLE recommendations ADD COLUMN genres TEXT NOT NULL DEFAULT '[]';
+        ALTER TABLE recommendations ADD COLUMN confidence REAL;
+        ALTER TABLE recommendations ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'want-to-read', 'not-interested', 'already-read', 'snoozed'));
+        ALTER TABLE recommendations ADD COLUMN feedback_reason TEXT;
+        ALTER TABLE recommendations ADD COLUMN responded_at TEXT;
+        ALTER TABLE recommendations ADD COLUMN snoozed_until TEXT;
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "Cache recommendation batches by profile and request",
+    up: (storage) => {
+      storage.sql.exec(`
+        CREATE TABLE recommendation_cache (
+          key TEXT PRIMARY KEY,
+          recommendation_ids TEXT NOT NULL,
+          details TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "Keep track of the reading groups the user belongs to",
+    up: (storage) => {
+      storage.sql.exec(`
+        CREATE TABLE reading_groups (
+          group_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          role TEXT NOT NULL,
+          joined_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: "Record undo information one list entry per row instead of whole lists",
+    up: (storage) => {
+      storage.sql.exec(`
+        CREATE TABLE event_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_id INTEGER NOT NULL,
+          field TEXT NOT NULL,
+          key TEXT NOT NULL,
+          before_index INTEGER,
+          before_value TEXT,
+          after_index INTEGER,
+          after_value TEXT
+        );
+        CREATE INDEX event_changes_event ON event_changes (event_id);
+      `);
+    },
+  },
+];
+
+/**
+ * Brings the database up to the latest schema version, applying each pending migration in order.
+ * Safe to call on every start-up; already-applied versions are skipped.
+ * @param storage - The Durable Object's storage.
+ * @returns The schema version after migrating.
+ */
+export async function runMigrations(storage: DurableObjectStorage): Promise<number> {
+  storage.sql.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  let current = storage.sql.exec<{ version: number | null }>("SELECT MAX(version) AS version FROM schema_migrations").one().version ?? 0;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+
+    console.log(`Applying UserBookPreferences migration ${migration.version}: ${migration.description}`);
+    // Synchronous migrations commit atomically with their version row, since nothing awaits in between
+    await migration.up(storage);
+    storage.sql.exec(
+      "INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)",
+      migration.version,
+      migration.description,
+      new Date().toISOString()
+    );
+    current = migration.version;
+  }
+
+  return current;
+}
@@ -0,0 +1,271 @@
+// OPDS catalogs of a user's shelves and recommendations, for e-reader apps: OPDS 1.2 (Atom) and OPDS 2.0 (JSON)
+
+import type { BookPreferences, ReadBook, ShelvedBook } from "./preferences";
+import type { Recommendation } from "./recommendations";
+import { computeSeriesProgress } from "./series";
+
+export type OpdsCatalog = "want-to-read" | "read" | "recommendations";
+
+export const OPDS_CATALOGS: Record<OpdsCatalog, { title: string; description: string }> = {
+  "want-to-read": { title: "Want to Read", description: "Books on your want-to-read shelf, newest first" },
+  read: { title: "Reading History", description: "Books you've finished, most recent first" },
+  recommendations: { title: "Recommended for You", description: "The next books in your series and your latest BestReads picks" },
+};
+
+export const OPDS_PAGE_SIZE = 50;
+
+// Checks own keys only, so "constructor" or "__proto__" in a URL isn't taken for a catalog
+export function isOpdsCatalog(name: string): name is OpdsCatalog {
+  return Object.prototype.hasOwnProperty.call(OPDS_CATALOGS, name);
+}
+
+const ATOM_NAVIGATION = "application/atom+xml;profile=opds-catalog;kind=navigation";
+const ATOM_ACQUISITION = "application/atom+xml;profile=opds-catalog;kind=acquisition";
+export const ATOM_CONTENT_TYPE = "application/atom+xml;charset=utf-8";
+export const OPDS2_CONTENT_TYPE = "application/opds+json";
+
+export interface OpdsBook {
+  id: string;
+  title: string;
+  author: string;
+  updated: string;
+  summary?: string;
+  isbn?: string;
+  genre?: string;
+}
+
+// A feed before it's written out in either OPDS version; paths are relative to the catalog root
+export interface OpdsFeed {
+  id: string;
+  title: string;
+  updated: string;
+  path: string;
+  up?: string;
+  next?: string;
+  previous?: string;
+  totalResults?: number;
+  navigation?: Array<{ path: string; title: string; description: string }>;
+  books?: OpdsBook[];
+}
+
+function bookId(book: ShelvedBook): string {
+  return book.isbn ? `urn:isbn:${book.isbn}` : `urn:bestreads:book:${book.workId ?? encodeURIComponent(`${book.title}|${book.author}`)}`;
+}
+
+// Atom needs full timestamps, but shelf dates are sometimes just YYYY-MM-DD
+function timestamp(date: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00Z` : date;
+}
+
+function toOpdsBook(book: ShelvedBook & Partial<ReadBook>, updated: string, summary?: string): OpdsBook {
+  const entry: OpdsBook = { id: bookId(book), title: book.title, author: book.author, updated: timestamp(updated) };
+  if (summary) entry.summary = summary;
+  if (book.isbn) entry.isbn = book.isbn;
+  if (book.genre) entry.genre = book.genre;
+  return entry;
+}
+
+function readSummary(book: ReadBook): string {
+  const parts = [book.dateFinished ? `Finished ${book.dateFinished.slice(0, 10)}` : "Finished"];
+  if (book.rating !== undefined) parts.push(`rated ${book.rating}/5`);
+  return book.review ? `${parts.join(", ")}. ${book.review}` : `${parts.join(", ")}.`;
+}
+
+/**
+ * The root navigation feed, linking to each catalog.
+ */
+export function buildRootFeed(login: string, updated: string): OpdsFeed {
+  return {
+    id: `urn:bestreads:${login}:catalog`,
+    title: "BestReads",
+    updated,
+    path: "",
+    navigation: (Object.keys(OPDS_CATALOGS) as OpdsCatalog[]).map(catalog => ({ path: `/${catalog}`, ...OPDS_CATALOGS[catalog] })),
+  };
+}
+
+/**
+ * A page of one catalog. Recommendations come first from series in progress, then from the latest
+ * getBookRecommendations call.
+ * @param page - 1-based page number.
+ */
+export function buildCatalogFeed(
+  catalog: OpdsCatalog,
+  login: string,
+  preferences: BookPreferences,
+  recommendations: Recommendation[],
+  page: number
+): OpdsFeed {
+  let books: OpdsBook[];
+  switch (catalog) {
+    case "want-to-read":
+      books = [...preferences.wantToRead]
+        .sort((a, b) => b.dateAdded.localeCompare(a.dateAdded))
+        .map(book => toOpdsBook(book, book.dateAdded));
+      break;
+    case "read":
+      books = [...preferences.booksRead]
+        .sort((a, b) => (b.dateFinished ?? b.dateAdded).localeCompare(a.dateFinished ?? a.dateAdded))
+        .map(book => toOpdsBook(book, book.dateFinished ?? book.dateAdded, readSummary(book)));
+      break;
+    case "recommendations":
+      books = [
+        ...computeSeriesProgress(preferences)
+          .filter(series => series.reading.length === 0 && (series.nextBook || series.nextCatalogBook))
+          .map(series => series.nextBook
+            ? toOpdsBook(series.nextBook, series.lastActivity, `Next in ${series.series} (#${series.nextPosition})`)
+            : {
+                id: `urn:bestreads:series:${encodeURIComponent(series.series)}:${series.nextPosition}`,
+                title: series.nextCatalogBook?.title ?? `${series.series} #${series.nextPosition}`,
+                author: series.nextCatalogBook?.author ?? series.author,
+                updated: timestamp(series.lastActivity),
+                summary: `Next in ${series.series} (#${series.nextPosition})`,
+              }),
+        ...recommendations.filter(recommendation => recommendation.status !== "not-interested").map(recommendation => ({
+          id: `urn:bestreads:recommendation:${recommendation.id}`,
+          title: recommendation.title,
+          author: recommendation.author,
+          updated: recommendation.recommendedAt,
+          ...(recommendation.reason ? { summary: recommendation.reason } : {}),
+        })),
+      ];
+      break;
+    default:
+      throw new Error(`Unknown OPDS catalog "${catalog}"`);
+  }
+
+  const pages = Math.max(1, Math.ceil(books.length / OPDS_PAGE_SIZE));
+  const current = Math.min(Math.max(1, page), pages);
+  const feed: OpdsFeed = {
+    id: `urn:bestreads:${login}:${catalog}`,
+    title: OPDS_CATALOGS[catalog].title,
+    updated: books.map(book => book.updated).sort().pop() ?? new Date().toISOString(),
+    path: current > 1 ? `/${catalog}?page=${current}` : `/${catalog}`,
+    up: "",
+    totalResults: books.length,
+    books: books.slice((current - 1) * OPDS_PAGE_SIZE, current * OPDS_PAGE_SIZE),
+  };
+  if (current < pages) feed.next = `/${catalog}?page=${current + 1}`;
+  if (current > 1) feed.previous = current > 2 ? `/${catalog}?page=${current - 1}` : `/${catalog}`;
+  return feed;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[char] as string);
+}
+
+// There are no files to download, so each book links to its Open Library page and cover instead
+function bookLinks(book: OpdsBook): { page: string; cover?: string } {
+  return {
+    page: book.isbn
+      ? `https://openlibrary.org/isbn/${book.isbn}`
+      : `https://openlibrary.org/search?q=${encodeURIComponent(book.title)}&author=${encodeURIComponent(book.author)}`,
+    cover: book.isbn ? `https://covers.openlibrary.org/b/isbn/${book.isbn}-L.jpg` : undefined,
+  };
+}
+
+/**
+ * Writes the feed as an OPDS 1.2 Atom document.
+ * @param base - Absolute URL of the catalog root, e.g. https://example.com/opds
+ */
+export function renderAtomFeed(feed: OpdsFeed, base: string): string {
+  const type = feed.navigation ? ATOM_NAVIGATION : ATOM_ACQUISITION;
+  const link = (rel: string, path: string, linkType: string) => `  <link rel="${rel}" href="${escapeXml(base + path)}" type="${linkType}"/>`;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/terms/" xmlns:opds="http://opds-spec.org/2010/catalog" xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">`,
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <updated>${feed.updated}</updated>`,
+    `  <author><name>BestReads</name></author>`,
+    link("self", feed.path, type),
+    link("start", "", ATOM_NAVIGATION),
+  ];
+  if (feed.up !== undefined) lines.push(link("up", feed.up, ATOM_NAVIGATION));
+  if (feed.next) lines.push(link("next", feed.next, type));
+  if (feed.previous) lines.push(link("previous", feed.previous, type));
+  if (feed.totalResults !== undefined) {
+    lines.push(`  <opensearch:totalResults>${feed.totalResults}</opensearch:totalResults>`, `  <opensearch:itemsPerPage>${OPDS_PAGE_SIZE}</opensearch:itemsPerPage>`);
+  }
+
+  for (const entry of feed.navigation ?? []) {
+    lines.push(
+      `  <entry>`,
+      `    <id>${escapeXml(`${feed.id}:${entry.path.slice(1)}`)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <updated>${feed.updated}</updated>`,
+      `    <content type="text">${escapeXml(entry.description)}</content>`,
+      `    <link rel="subsection" href="${escapeXml(base + entry.path)}" type="${ATOM_ACQUISITION}"/>`,
+      `  </entry>`
+    );
+  }
+
+  for (const book of feed.books ?? []) {
+    const links = bookLinks(book);
+    lines.push(
+      `  <entry>`,
+      `    <id>${escapeXml(book.id)}</id>`,
+      `    <title>${escapeXml(book.title)}</title>`,
+      `    <author><name>${escapeXml(book.author)}</name></author>`,
+      `    <updated>${book.updated}</updated>`
+    );
+    if (book.isbn) lines.push(`    <dc:identifier>urn:isbn:${book.isbn}</dc:identifier>`);
+    if (book.genre) lines.push(`    <category term="${escapeXml(book.genre)}" label="${escapeXml(book.genre)}"/>`);
+    if (book.summary) lines.push(`    <summary type="text">${escapeXml(book.summary)}</summary>`);
+    if (links.cover) {
+      lines.push(
+        `    <link rel="http://opds-spec.org/image" href="${escapeXml(links.cover)}" type="image/jpeg"/>`,
+        `    <link rel="http://opds-spec.org/image/thumbnail" href="${escapeXml(links.cover.replace("-L.jpg", "-S.jpg"))}" type="image/jpeg"/>`
+      );
+    }
+    lines.push(`    <link rel="alternate" href="${escapeXml(links.page)}" type="text/html"/>`, `  </entry>`);
+  }
+
+  lines.push(`</feed>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Writes the feed as an OPDS 2.0 JSON document.
+ * @param base - Absolute URL of the catalog root, e.g. https://example.com/opds/v2
+ */
+export function renderOpds2Feed(feed: OpdsFeed, base: string): Record<string, unknown> {
+  const link = (rel: string, path: string) => ({ rel, href: base + path, type: OPDS2_CONTENT_TYPE });
+  const links = [link("self", feed.path), link("start", "")];
+  if (feed.up !== undefined) links.push(link("up", feed.up));
+  if (feed.next) links.push(link("next", feed.next));
+  if (feed.previous) links.push(link("previous", feed.previous));
+
+  const document: Record<string, unknown> = {
+    metadata: {
+      title: feed.title,
+      modified: feed.updated,
+      ...(feed.totalResults !== undefined ? { numberOfItems: feed.totalResults, itemsPerPage: OPDS_PAGE_SIZE } : {}),
+    },
+    links,
+  };
+
+  if (feed.navigation) {
+    document.navigation = feed.navigation.map(entry => ({ href: base + entry.path, title: entry.title, type: OPDS2_CONTENT_TYPE, rel: "subsection" }));
+  }
+  if (feed.books) {
+    document.publications = feed.books.map(book => {
+      const related = bookLinks(book);
+      return {
+        metadata: {
+          "@type": "http://schema.org/Book",
+          identifier: book.id,
+          title: book.title,
+          author: book.author,
+          modified: book.updated,
+          ...(book.genre ? { subject: book.genre } : {}),
+          ...(book.summary ? { description: book.summary } : {}),
+        },
+        links: [{ rel: "alternate", href: related.page, type: "text/html" }],
+        ...(related.cover ? { images: [{ href: related.cover, type: "image/jpeg" }] } : {}),
+      };
+    });
+  }
+  return document;
+}
@@ -0,0 +1,202 @@
+import type { BookPreferences } from "./preferences";
+import { createEmptyPreferences } from "./preferences";
+import { createWorkId } from "./book-identity";
+
+// Book lists in BookPreferences and the shelf they are stored under in the books table
+const BOOK_LISTS = {
+  booksRead: "read",
+  dislikedBooks: "disliked",
+  wantToRead: "want-to-read",
+  currentlyReading: "currently-reading",
+  didNotFinish: "did-not-finish",
+} as const;
+
+type BookListKey = keyof typeof BOOK_LISTS;
+
+// Book fields and the column each one is stored in
+const BOOK_COLUMNS: Record<string, string> = {
+  title: "title",
+  author: "author",
+  dateAdded: "date_added",
+  rating: "rating",
+  review: "review",
+  dateFinished: "date_finished",
+  rereadCount: "reread_count",
+  dateStarted: "date_started",
+  currentPage: "current_page",
+  totalPages: "total_pages",
+  percentComplete: "percent_complete",
+  stoppedAt: "stopped_at",
+  reason: "reason",
+  isbn: "isbn",
+  workId: "work_id",
+  pages: "pages",
+  genre: "genre",
+  series: "series",
+  seriesPosition: "series_position",
+};
+
+type Row = Record<string, SqlStorageValue>;
+type BookRecord = Record<string, unknown> & { title: string; author: string };
+
+export interface WriteSummary {
+  inserted: number;
+  updated: number;
+  deleted: number;
+}
+
+// Rows are matched by work ID; title and author only identify rows written before work IDs existed
+function bookKey(book: { title: string; author: string; workId?: unknown }): string {
+  if (book.workId) return `work:${book.workId}`;
+  return `${book.title.toLowerCase()}\u0000${book.author.toLowerCase()}`;
+}
+
+function rowToBook(row: Row): BookRecord {
+  const book: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(BOOK_COLUMNS)) {
+    if (row[column] !== null && row[column] !== undefined) book[field] = row[column];
+  }
+  return book as BookRecord;
+}
+
+function bookToValues(book: BookRecord): SqlStorageValue[] {
+  return Object.keys(BOOK_COLUMNS).map(field => {
+    const value = book[field];
+    return value === undefined ? null : (value as SqlStorageValue);
+  });
+}
+
+/**
+ * Reads a user's full preferences out of the SQLite tables.
+ * @param sql - The Durable Object's SQL storage.
+ * @returns The preferences, in the order entries were added.
+ */
+export function readPreferences(sql: SqlStorage): BookPreferences {
+  const preferences = createEmptyPreferences();
+
+  const profile = sql.exec<{ value: string }>("SELECT value FROM profile WHERE key = 'userName'").toArray();
+  if (profile.length > 0) preferences.userName = profile[0].value;
+
+  for (const row of sql.exec<{ name: string; original: string | null }>("SELECT name, original FROM genres ORDER BY id")) {
+    preferences.favoriteGenres.push(row.name);
+    if (row.original) preferences.genreWording[row.name] = row.original;
+  }
+
+  for (const row of sql.exec<{ name: string; sentiment: string }>("SELECT name, sentiment FROM authors ORDER BY id")) {
+    if (row.sentiment === "favorite") preferences.favoriteAuthors.push(row.name);
+    else preferences.dislikedAuthors.push(row.name);
+  }
+
+  const listsByShelf = Object.fromEntries(Object.entries(BOOK_LISTS).map(([list, shelf]) => [shelf, list])) as Record<string, BookListKey>;
+  for (const row of sql.exec<Row>("SELECT * FROM books ORDER BY id")) {
+    const list = listsByShelf[row.shelf as string];
+    if (list) (preferences[list] as unknown as BookRecord[]).push(rowToBook(row));
+  }
+
+  return preferences;
+}
+
+// Sync one author list, inserting and deleting only what changed
+function syncAuthors(sql: SqlStorage, names: string[], sentiment: "favorite" | "disliked", summary: WriteSummary) {
+  const existing = new Map(
+    sql.exec<{ id: number; name: string }>("SELECT id, name FROM authors WHERE sentiment = ?", sentiment).toArray().map(row => [row.name, row.id])
+  );
+  const now = new Date().toISOString();
+
+  for (const name of names) {
+    if (existing.has(name)) {
+      existing.delete(name);
+    } else {
+      sql.exec("INSERT INTO authors (name, sentiment, date_added) VALUES (?, ?, ?)", name, sentiment, now);
+      summary.inserted++;
+    }
+  }
+  for (const id of existing.values()) {
+    sql.exec("DELETE FROM authors WHERE id = ?", id);
+    summary.deleted++;
+  }
+}
+
+// Sync favorite genres along with the wording the user originally used for each
+function syncGenres(sql: SqlStorage, names: string[], wording: Record<string, string>, summary: WriteSummary) {
+  const existing = new Map(
+    sql.exec<{ id: number; name: string; original: string | null }>("SELECT id, name, original FROM genres").toArray().map(row => [row.name, row])
+  );
+  const now = new Date().toISOString();
+
+  for (const name of names) {
+    const original = wording[name] ?? null;
+    const row = existing.get(name);
+    if (!row) {
+      sql.exec("INSERT INTO genres (name, original, date_added) VALUES (?, ?, ?)", name, original, now);
+      summary.inserted++;
+      continue;
+    }
+    existing.delete(name);
+    if (row.original !== original) {
+      sql.exec("UPDATE genres SET original = ? WHERE id = ?", original, row.id);
+      summary.updated++;
+    }
+  }
+  for (const { id } of existing.values()) {
+    sql.exec("DELETE FROM genres WHERE id = ?", id);
+    summary.deleted++;
+  }
+}
+
+// Sync one shelf of books, updating rows in place when only their details changed
+function syncBooks(sql: SqlStorage, shelf: string, books: BookRecord[], summary: WriteSummary) {
+  const existing = new Map<string, { id: number; values: SqlStorageValue[] }>();
+  for (const row of sql.exec<Row>("SELECT * FROM books WHERE shelf = ?", shelf)) {
+    const book = rowToBook(row);
+    existing.set(bookKey(book), { id: row.id as number, values: bookToValues(book) });
+  }
+
+  const columns = Object.values(BOOK_COLUMNS);
+  for (const book of books) {
+    if (!book.workId) book.workId = createWorkId();
+    const values = bookToValues(book);
+    const current = existing.get(bookKey(book));
+    if (!current) {
+      sql.exec(
+        `INSERT INTO books (shelf, ${columns.join(", ")}) VALUES (?, ${columns.map(() => "?").join(", ")})`,
+        shelf,
+        ...values
+      );
+      summary.inserted++;
+      continue;
+    }
+    existing.delete(bookKey(book));
+    if (values.some((value, i) => value !== current.values[i])) {
+      sql.exec(`UPDATE books SET ${columns.map(column => `${column} = ?`).join(", ")} WHERE id = ?`, ...values, current.id);
+      summary.updated++;
+    }
+  }
+  for (const { id } of existing.values()) {
+    sql.exec("DELETE FROM books WHERE id = ?", id);
+    summary.deleted++;
+  }
+}
+
+/**
+ * Writes a user's preferences to the SQLite tables, touching only the rows that changed.
+ * Callers should run this inside a transaction.
+ * @param sql - The Durable Object's SQL storage.
+ * @param preferences - The full desired state.
+ * @returns Counts of inserted, updated and deleted rows.
+ */
+export function writePreferences(sql: SqlStorage, preferences: BookPreferences): WriteSummary {
+  const summary: WriteSummary = { inserted: 0, updated: 0, deleted: 0 };
+
+  sql.exec("INSERT INTO profile (key, value) VALUES ('userName', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value", preferences.userName);
+
+  syncGenres(sql, preferences.favoriteGenres || [], preferences.genreWording || {}, summary);
+  syncAuthors(sql, preferences.favoriteAuthors || [], "favorite", summary);
+  syncAuthors(sql, preferences.dislikedAuthors || [], "disliked", summary);
+
+  for (const [list, shelf] of Object.entries(BOOK_LISTS) as Array<[BookListKey, string]>) {
+    syncBooks(sql, shelf, (preferences[list] || []) as unknown as BookRecord[], summary);
+  }
+
+  return summary;
+}
@@ -0,0 +1,63 @@
+// A book the user has read, with optional rating and reading details
+export interface ReadBook extends ShelvedBook {
+  rating?: number; // 1-5 stars
+  review?: string;
+  dateFinished?: string;
+  rereadCount?: number;
+  pages?: number; // Page count, used for pages-based reading goals
+}
+
+// A book on one of the user's shelves
+export interface ShelvedBook {
+  title: string;
+  author: string;
+  dateAdded: string;
+  isbn?: string; // ISBN-13, validated
+  workId?: string; // Stable internal ID, kept when the book moves between shelves
+  genre?: string; // Canonical genre from the taxonomy, or a custom genre
+  series?: string;
+  seriesPosition?: number; // Volume number within the series; may be fractional for novellas (e.g. 1.5)
+}
+
+// A book in progress, tracked by page and/or percent
+export interface CurrentlyReadingBook extends ShelvedBook {
+  dateStarted: string;
+  currentPage?: number;
+  totalPages?: number;
+  percentComplete?: number;
+}
+
+// A book the user gave up on
+export interface DidNotFinishBook extends ShelvedBook {
+  stoppedAt?: string;
+  reason?: string;
+}
+
+// Book preferences state stored per user
+export interface BookPreferences {
+  userName: string;
+  favoriteGenres: string[]; // Canonical names from the genre taxonomy, or custom genres
+  genreWording: Record<string, string>; // What the user originally typed, keyed by canonical genre, when it differed
+  favoriteAuthors: string[];
+  booksRead: ReadBook[];
+  dislikedBooks: ShelvedBook[];
+  dislikedAuthors: string[];
+  wantToRead: ShelvedBook[];
+  currentlyReading: CurrentlyReadingBook[];
+  didNotFinish: DidNotFinishBook[];
+}
+
+export function createEmptyPreferences(userName = ""): BookPreferences {
+  return {
+    userName,
+    favoriteGenres: [],
+    genreWording: {},
+    favoriteAuthors: [],
+    booksRead: [],
+    dislikedBooks: [],
+    dislikedAuthors: [],
+    wantToRead: [],
+    currentlyReading: [],
+    didNotFinish: [],
+  };
+}
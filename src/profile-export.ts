@@ -0,0 +1,339 @@
+// Exporting a user's profile as versioned JSON, Goodreads-compatible CSV or schema.org JSON-LD
+
+import { z } from "zod";
+import type { BookPreferences, ReadBook, ShelvedBook } from "./preferences";
+import type { ReadingGoal } from "./goals";
+import type { Quote } from "./quotes";
+
+// Bump when the document shape changes, and teach parseProfileExport to read the older versions
+export const PROFILE_EXPORT_VERSION = 2;
+
+// The first version with quotes; older exports have none, which doesn't mean the user has none
+export const QUOTES_EXPORT_VERSION = 2;
+
+export type ExportFormat = "json" | "csv" | "jsonld";
+
+// Everything needed to restore a user's library exactly
+export interface ProfileExport {
+  format: "bestreads-profile";
+  version: number;
+  exportedAt: string;
+  preferences: BookPreferences;
+  goals: ReadingGoal[];
+  quotes: Quote[]; // Added in version 2 (QUOTES_EXPORT_VERSION)
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+  jsonld: "application/ld+json",
+};
+
+// Checks own keys only, so "constructor" or "toString" in a query string isn't taken for a format
+export function isExportFormat(name: string): name is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, name);
+}
+
+export function exportFileName(format: ExportFormat, date = new Date()): string {
+  const extension = { json: "json", csv: "csv", jsonld: "jsonld" }[format];
+  return `bestreads-export-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+// The optional fields of each shelf's books, as in preferences.ts
+const bookSchema = z.object({
+  title: z.string(),
+  author: z.string(),
+  dateAdded: z.string(),
+  isbn: z.string().optional(),
+  workId: z.string().optional(),
+  genre: z.string().optional(),
+  series: z.string().optional(),
+  seriesPosition: z.number().optional(),
+});
+
+const readBookSchema = bookSchema.extend({
+  rating: z.number().int().min(1).max(5).optional(),
+  review: z.string().optional(),
+  dateFinished: z.string().optional(),
+  rereadCount: z.number().int().min(0).optional(),
+  pages: z.number().int().positive().optional(),
+});
+
+const currentlyReadingBookSchema = bookSchema.extend({
+  dateStarted: z.string(),
+  currentPage: z.number().optional(),
+  totalPages: z.number().optional(),
+  percentComplete: z.number().optional(),
+});
+
+const didNotFinishBookSchema = bookSchema.extend({
+  stoppedAt: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const profileExportSchema = z.object({
+  format: z.literal("bestreads-profile"),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  preferences: z.object({
+    userName: z.string(),
+    favoriteGenres: z.array(z.string()),
+    genreWording: z.record(z.string()).default({}),
+    favoriteAuthors: z.array(z.string()),
+    booksRead: z.array(readBookSchema),
+    dislikedBooks: z.array(bookSchema),
+    dislikedAuthors: z.array(z.string()),
+    wantToRead: z.array(bookSchema),
+    currentlyReading: z.array(currentlyReadingBookSchema),
+    didNotFinish: z.array(didNotFinishBookSchema),
+  }),
+  goals: z
+    .array(
+      z.object({
+        period: z.enum(["year", "month"]),
+        metric: z.enum(["books", "pages"]),
+        target: z.number().int().positive(),
+        createdAt: z.string(),
+      })
+    )
+    .default([]),
+  quotes: z
+    .array(
+      z.object({
+        id: z.number(),
+        text: z.string(),
+        title: z.string(),
+        author: z.string(),
+        workId: z.string().nullable(),
+        note: z.string().nullable(),
+        location: z.string().nullable(),
+        page: z.string().nullable(),
+        highlightedAt: z.string().nullable(),
+        addedAt: z.string(),
+        source: z.enum(["kindle", "manual"]),
+        favorite: z.boolean(),
+      })
+    )
+    .default([]),
+});
+
+export function buildProfileExport(preferences: BookPreferences, goals: ReadingGoal[], quotes: Quote[]): ProfileExport {
+  return {
+    format: "bestreads-profile",
+    version: PROFILE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    preferences,
+    goals,
+    quotes,
+  };
+}
+
+/**
+ * Reads a JSON document written by buildProfileExport.
+ * @returns The export, or an error message explaining why it can't be restored.
+ */
+export function parseProfileExport(text: string): { profile: ProfileExport } | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: "The export isn't valid JSON." };
+  }
+
+  const result = profileExportSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `This isn't a BestReads profile export (${issue.path.join(".") || "document"}: ${issue.message}).` };
+  }
+  if (result.data.version > PROFILE_EXPORT_VERSION) {
+    return { error: `This export is from a newer version (${result.data.version}) than this server understands (${PROFILE_EXPORT_VERSION}).` };
+  }
+  return { profile: result.data };
+}
+
+// How much of each kind of entry an export holds, for previews before restoring it
+export function countProfileExport(profile: ProfileExport): Record<string, number> {
+  const { preferences, goals } = profile;
+  return {
+    favoriteGenres: preferences.favoriteGenres.length,
+    favoriteAuthors: preferences.favoriteAuthors.length,
+    dislikedAuthors: preferences.dislikedAuthors.length,
+    booksRead: preferences.booksRead.length,
+    wantToRead: preferences.wantToRead.length,
+    currentlyReading: preferences.currentlyReading.length,
+    didNotFinish: preferences.didNotFinish.length,
+    dislikedBooks: preferences.dislikedBooks.length,
+    goals: goals.length,
+    quotes: profile.quotes.length,
+  };
+}
+
+const GOODREADS_COLUMNS = [
+  "Book Id",
+  "Title",
+  "Author",
+  "Author l-f",
+  "Additional Authors",
+  "ISBN",
+  "ISBN13",
+  "My Rating",
+  "Average Rating",
+  "Publisher",
+  "Binding",
+  "Number of Pages",
+  "Year Published",
+  "Original Publication Year",
+  "Date Read",
+  "Date Added",
+  "Bookshelves",
+  "Bookshelves with positions",
+  "Exclusive Shelf",
+  "My Review",
+  "Spoiler",
+  "Private Notes",
+  "Read Count",
+  "Owned Copies",
+];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Goodreads writes dates as 2024/03/15
+function goodreadsDate(iso?: string): string {
+  return iso ? iso.slice(0, 10).replace(/-/g, "/") : "";
+}
+
+function authorLastFirst(author: string): string {
+  const parts = author.trim().split(/\s+/);
+  return parts.length > 1 ? `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(" ")}` : author;
+}
+
+// ISBN-13s starting 978 have an ISBN-10 equivalent, which Goodreads lists alongside
+function isbn10(isbn13?: string): string {
+  if (!isbn13?.startsWith("978")) return "";
+  const base = isbn13.slice(3, 12);
+  const sum = [...base].reduce((total, char, i) => total + Number(char) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return base + (check === 10 ? "X" : String(check));
+}
+
+/**
+ * Writes the library in Goodreads' export format, which Goodreads, StoryGraph and most other
+ * services can import. Disliked books go on a custom "disliked" shelf.
+ */
+export function exportGoodreadsCsv(preferences: BookPreferences): string {
+  const shelves: Array<[string, Array<ShelvedBook & Partial<ReadBook>>]> = [
+    ["read", preferences.booksRead],
+    ["currently-reading", preferences.currentlyReading],
+    ["to-read", preferences.wantToRead],
+    ["did-not-finish", preferences.didNotFinish],
+    ["disliked", preferences.dislikedBooks],
+  ];
+
+  const lines = [GOODREADS_COLUMNS.join(",")];
+  for (const [shelf, books] of shelves) {
+    for (const book of books) {
+      const row: Record<string, string | number | undefined> = {
+        Title: book.title,
+        Author: book.author,
+        "Author l-f": authorLastFirst(book.author),
+        ISBN: book.isbn ? `="${isbn10(book.isbn)}"` : '=""',
+        ISBN13: book.isbn ? `="${book.isbn}"` : '=""',
+        "My Rating": book.rating ?? 0,
+        "Number of Pages": book.pages ?? (book as { totalPages?: number }).totalPages,
+        "Date Read": goodreadsDate(book.dateFinished),
+        "Date Added": goodreadsDate(book.dateAdded),
+        Bookshelves: ["read", "currently-reading", "to-read"].includes(shelf) ? "" : shelf,
+        "Exclusive Shelf": shelf,
+        "My Review": book.review,
+        "Read Count": shelf === "read" ? 1 + (book.rereadCount ?? 0) : 0,
+        "Owned Copies": 0,
+      };
+      lines.push(GOODREADS_COLUMNS.map(column => csvField(row[column])).join(","));
+    }
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function schemaBook(book: ShelvedBook & Partial<ReadBook>): Record<string, unknown> {
+  const node: Record<string, unknown> = {
+    "@type": "Book",
+    name: book.title,
+    author: { "@type": "Person", name: book.author },
+  };
+  if (book.isbn) node.isbn = book.isbn;
+  if (book.pages) node.numberOfPages = book.pages;
+  if (book.genre) node.genre = book.genre;
+  if (book.series) {
+    node.isPartOf = { "@type": "BookSeries", name: book.series };
+    if (book.seriesPosition !== undefined) node.position = book.seriesPosition;
+  }
+  return node;
+}
+
+/**
+ * Describes the library as schema.org JSON-LD: finished, in-progress and abandoned books as
+ * ReadActions, the want-to-read shelf as WantActions and disliked books as DislikeActions.
+ */
+export function exportJsonLd(preferences: BookPreferences): Record<string, unknown> {
+  const agent = { "@type": "Person", name: preferences.userName };
+  const graph: Record<string, unknown>[] = [];
+
+  for (const book of preferences.booksRead) {
+    const action: Record<string, unknown> = {
+      "@type": "ReadAction",
+      agent,
+      object: schemaBook(book),
+      actionStatus: "https://schema.org/CompletedActionStatus",
+      endTime: book.dateFinished,
+    };
+    if (book.rating !== undefined || book.review) {
+      action.result = {
+        "@type": "Review",
+        itemReviewed: schemaBook(book),
+        author: agent,
+        ...(book.rating !== undefined ? { reviewRating: { "@type": "Rating", ratingValue: book.rating, bestRating: 5, worstRating: 1 } } : {}),
+        ...(book.review ? { reviewBody: book.review } : {}),
+      };
+    }
+    graph.push(action);
+  }
+  for (const book of preferences.currentlyReading) {
+    graph.push({ "@type": "ReadAction", agent, object: schemaBook(book), actionStatus: "https://schema.org/ActiveActionStatus", startTime: book.dateStarted });
+  }
+  for (const book of preferences.didNotFinish) {
+    graph.push({ "@type": "ReadAction", agent, object: schemaBook(book), actionStatus: "https://schema.org/FailedActionStatus", ...(book.reason ? { description: book.reason } : {}) });
+  }
+  for (const book of preferences.wantToRead) {
+    graph.push({ "@type": "WantAction", agent, object: schemaBook(book), startTime: book.dateAdded });
+  }
+  for (const book of preferences.dislikedBooks) {
+    graph.push({ "@type": "DislikeAction", agent, object: schemaBook(book), startTime: book.dateAdded });
+  }
+  for (const author of preferences.favoriteAuthors) {
+    graph.push({ "@type": "LikeAction", agent, object: { "@type": "Person", name: author } });
+  }
+  for (const author of preferences.dislikedAuthors) {
+    graph.push({ "@type": "DislikeAction", agent, object: { "@type": "Person", name: author } });
+  }
+
+  return { "@context": "https://schema.org", "@graph": graph };
+}
+
+/**
+ * Renders the profile in the requested format, as the text of a file.
+ */
+export function renderExport(format: ExportFormat, preferences: BookPreferences, goals: ReadingGoal[], quotes: Quote[]): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(buildProfileExport(preferences, goals, quotes), null, 2);
+    case "csv":
+      return exportGoodreadsCsv(preferences);
+    case "jsonld":
+      return JSON.stringify(exportJsonLd(preferences), null, 2);
+    default:
+      throw new Error(`Unknown export format "${format}"`);
+  }
+}
@@ -0,0 +1,222 @@
+// Highlights and quotes from books: Kindle "My Clippings.txt" parsing and the quotes table
+
+export interface Quote {
+  id: number;
+  text: string;
+  title: string;
+  author: string;
+  workId: string | null; // Links the quote to a book in booksRead
+  note: string | null;
+  location: string | null; // Kindle location, e.g. "180-183"
+  page: string | null;
+  highlightedAt: string | null;
+  addedAt: string;
+  source: "kindle" | "manual";
+  favorite: boolean;
+}
+
+export type NewQuote = Omit<Quote, "id" | "addedAt">;
+
+export interface QuoteSearch {
+  query?: string;
+  title?: string;
+  author?: string;
+  favoritesOnly?: boolean;
+  limit?: number;
+}
+
+// A highlight parsed from My Clippings.txt, with any note made at the same spot attached
+export interface KindleClipping {
+  title: string;
+  author: string;
+  text: string;
+  note?: string;
+  location?: string;
+  page?: string;
+  highlightedAt?: string;
+}
+
+type QuoteRow = {
+  id: number;
+  text: string;
+  title: string;
+  author: string;
+  work_id: string | null;
+  note: string | null;
+  location: string | null;
+  page: string | null;
+  highlighted_at: string | null;
+  added_at: string;
+  source: string;
+  favorite: number;
+};
+
+const CLIPPING_SEPARATOR = /^==========\s*$/m;
+
+// "Guards! Guards! (Discworld #8) (Terry Pratchett)": the author is in the last parentheses
+function parseTitleLine(line: string): { title: string; author: string } {
+  const match = line.trim().match(/^(.*)\(([^()]*)\)\s*$/);
+  if (!match || !match[1].trim()) return { title: line.trim(), author: "Unknown" };
+  let author = match[2].trim();
+  // "Tolkien, J.R.R." → "J.R.R. Tolkien"
+  const lastFirst = author.match(/^([^,;]+),\s*([^,;]+)$/);
+  if (lastFirst) author = `${lastFirst[2]} ${lastFirst[1]}`;
+  return { title: match[1].trim(), author };
+}
+
+// "- Your Highlight on page 12 | Location 180-183 | Added on Sunday, March 3, 2024 1:02:03 PM"
+function parseMetadataLine(line: string): { kind: string; location?: string; page?: string; highlightedAt?: string } {
+  const kind = line.match(/Your\s+(\w+)/i)?.[1].toLowerCase() ?? "highlight";
+  const location = line.match(/location\s+([\d-]+)/i)?.[1];
+  const page = line.match(/page\s+([\divxlc-]+)/i)?.[1];
+  const added = line.match(/Added on\s+(?:\w+,\s*)?(.+)$/i)?.[1];
+  const date = added ? new Date(added.trim()) : null;
+  return {
+    kind,
+    location,
+    page,
+    highlightedAt: date && !isNaN(date.getTime()) ? date.toISOString() : undefined,
+  };
+}
+
+function locationStart(location?: string): number | null {
+  return location ? Number(location.split("-")[0]) : null;
+}
+
+function locationEnd(location?: string): number | null {
+  return location ? Number(location.split("-").pop()) : null;
+}
+
+/**
+ * Parses a Kindle "My Clippings.txt" file into highlights. Notes are attached to the highlight they
+ * were made on, bookmarks are dropped, and highlights that were later extended or edited (which Kindle
+ * records as a second clipping) keep only their final version.
+ */
+export function parseKindleClippings(text: string): KindleClipping[] {
+  const highlights: KindleClipping[] = [];
+  const notes: Array<{ title: string; location?: string; text: string }> = [];
+
+  for (const block of text.replace(/^\uFEFF/, "").split(CLIPPING_SEPARATOR)) {
+    const lines = block.replace(/\uFEFF/g, "").split(/\r?\n/).map(line => line.trim());
+    while (lines.length > 0 && !lines[0]) lines.shift();
+    if (lines.length < 3) continue;
+
+    const { title, author } = parseTitleLine(lines[0]);
+    const metadata = parseMetadataLine(lines[1]);
+    const body = lines.slice(2).join("\n").trim();
+    if (!body) continue;
+
+    if (metadata.kind === "note") {
+      notes.push({ title, location: metadata.location, text: body });
+    } else if (metadata.kind === "highlight") {
+      const clipping: KindleClipping = { title, author, text: body };
+      if (metadata.location) clipping.location = metadata.location;
+      if (metadata.page) clipping.page = metadata.page;
+      if (metadata.highlightedAt) clipping.highlightedAt = metadata.highlightedAt;
+
+      // An edited highlight overlaps the earlier one and contains (or is contained by) its text
+      const earlier = highlights.findIndex(existing =>
+        existing.title === title &&
+        existing.location !== undefined &&
+        locationStart(existing.location) === locationStart(clipping.location) &&
+        (existing.text.includes(body) || body.includes(existing.text))
+      );
+      if (earlier !== -1) highlights.splice(earlier, 1);
+      highlights.push(clipping);
+    }
+  }
+
+  // Kindle places a note at the end of the highlight it annotates
+  for (const note of notes) {
+    const position = locationStart(note.location);
+    const highlight = highlights.find(candidate => {
+      const start = locationStart(candidate.location);
+      const end = locationEnd(candidate.location);
+      return candidate.title === note.title && position !== null && start !== null && end !== null && position >= start && position <= end;
+    });
+    if (highlight) highlight.note = highlight.note ? `${highlight.note}\n${note.text}` : note.text;
+  }
+
+  return highlights;
+}
+
+function rowToQuote(row: QuoteRow): Quote {
+  return {
+    id: row.id,
+    text: row.text,
+    title: row.title,
+    author: row.author,
+    workId: row.work_id,
+    note: row.note,
+    location: row.location,
+    page: row.page,
+    highlightedAt: row.highlighted_at,
+    addedAt: row.added_at,
+    source: row.source as Quote["source"],
+    favorite: row.favorite === 1,
+  };
+}
+
+/**
+ * Saves a quote unless the same passage from the same book is already stored.
+ * @returns Whether the quote was added.
+ */
+export function insertQuote(sql: SqlStorage, quote: NewQuote, addedAt = new Date().toISOString()): boolean {
+  const existing = sql.exec("SELECT id FROM quotes WHERE title = ? AND text = ?", quote.title, quote.text).toArray();
+  if (existing.length > 0) return false;
+  sql.exec(
+    `INSERT INTO quotes (text, title, author, work_id, note, location, page, highlighted_at, added_at, source, favorite)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    quote.text,
+    quote.title,
+    quote.author,
+    quote.workId,
+    quote.note,
+    quote.location,
+    quote.page,
+    quote.highlightedAt,
+    addedAt,
+    quote.source,
+    quote.favorite ? 1 : 0
+  );
+  return true;
+}
+
+// A LIKE pattern matching the text anywhere, with its own % and _ taken literally (use with ESCAPE '\')
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+export function searchQuotes(sql: SqlStorage, search: QuoteSearch): Quote[] {
+  const conditions: string[] = [];
+  const values: string[] = [];
+  if (search.query) {
+    conditions.push("(text LIKE ? ESCAPE '\\' OR note LIKE ? ESCAPE '\\')");
+    const pattern = containsPattern(search.query);
+    values.push(pattern, pattern);
+  }
+  if (search.title) {
+    conditions.push("title LIKE ? ESCAPE '\\'");
+    values.push(containsPattern(search.title));
+  }
+  if (search.author) {
+    conditions.push("author LIKE ? ESCAPE '\\'");
+    values.push(containsPattern(search.author));
+  }
+  if (search.favoritesOnly) conditions.push("favorite = 1");
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return sql
+    .exec<QuoteRow>(`SELECT * FROM quotes ${where} ORDER BY favorite DESC, id DESC LIMIT ?`, ...values, search.limit ?? 20)
+    .toArray()
+    .map(rowToQuote);
+}
+
+export function randomQuote(sql: SqlStorage, search: QuoteSearch): Quote | null {
+  const candidates = searchQuotes(sql, { ...search, limit: 500 });
+  return candidates.length > 0 ? candidates[Math.floor(Math.random() * candidates.length)] : null;
+}
+
+export function listQuotes(sql: SqlStorage): Quote[] {
+  return sql.exec<QuoteRow>("SELECT * FROM quotes ORDER BY id").toArray().map(rowToQuote);
+}
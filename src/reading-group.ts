@@ -0,0 +1,106 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "./index";
+import {
+  GroupInvite,
+  ReadingGroupInfo,
+  createGroupTables,
+  createInviteCode,
+  deleteMember,
+  insertGroup,
+  insertInvite,
+  insertMember,
+  listOpenInvites,
+  readGroup,
+  setMemberSharing,
+  useInvite,
+} from "./groups";
+import { MAX_TEXT_LENGTHS, sanitizeText } from "./sanitize";
+
+// Durable Object for one reading group, named by the group's ID. It holds who's in the group and
+// whether each member has agreed to share their profile, never the profiles themselves. Every method
+// takes the caller's login and only acts for members (or the owner, where noted).
+export class ReadingGroup extends DurableObject<Env> {
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    createGroupTables(this.ctx.storage.sql);
+  }
+
+  /**
+   * Sets up the group with its owner as the first member. The owner isn't sharing their profile yet either.
+   * @returns The new group, or null if a group with this ID already exists.
+   */
+  async create(id: string, name: string, owner: { login: string; name: string }): Promise<ReadingGroupInfo | null> {
+    const sql = this.ctx.storage.sql;
+    if (readGroup(sql)) return null;
+    this.ctx.storage.transactionSync(() => insertGroup(sql, id, sanitizeText(name, MAX_TEXT_LENGTHS.name), owner));
+    return readGroup(sql);
+  }
+
+  /**
+   * @returns The group, or null if it doesn't exist or the login isn't a member.
+   */
+  async getGroup(login: string): Promise<ReadingGroupInfo | null> {
+    const group = readGroup(this.ctx.storage.sql);
+    return group?.members.some(member => member.login === login) ? group : null;
+  }
+
+  /**
+   * Creates a single-use invite code. Only the owner can invite people.
+   * @returns The invite, or null if the login isn't the group's owner.
+   */
+  async createInvite(login: string): Promise<GroupInvite | null> {
+    const sql = this.ctx.storage.sql;
+    const group = readGroup(sql);
+    if (!group || group.owner !== login) return null;
+    return insertInvite(sql, createInviteCode(group.id), login);
+  }
+
+  /**
+   * @returns The owner's unused invites, or null if the login isn't the group's owner.
+   */
+  async getOpenInvites(login: string): Promise<GroupInvite[] | null> {
+    const sql = this.ctx.storage.sql;
+    const group = readGroup(sql);
+    if (!group || group.owner !== login) return null;
+    return listOpenInvites(sql);
+  }
+
+  /**
+   * Adds the member using an invite code, with sharing off until they opt in. Joining again is a no-op.
+   * @returns The group, or null if the code is unknown, already used or expired.
+   */
+  async join(code: string, member: { login: string; name: string }): Promise<ReadingGroupInfo | null> {
+    const sql = this.ctx.storage.sql;
+    const group = readGroup(sql);
+    if (!group) return null;
+    if (group.members.some(existing => existing.login === member.login)) return group;
+
+    const joined = this.ctx.storage.transactionSync(() => {
+      if (!useInvite(sql, code.trim().toLowerCase(), member.login)) return false;
+      insertMember(sql, member, "member");
+      return true;
+    });
+    return joined ? readGroup(sql) : null;
+  }
+
+  /**
+   * Opts the member in to (or out of) the group's recommendations using their profile.
+   * @returns The group, or null if the login isn't a member.
+   */
+  async setSharing(login: string, sharing: boolean): Promise<ReadingGroupInfo | null> {
+    const sql = this.ctx.storage.sql;
+    if (!setMemberSharing(sql, login, sharing)) return null;
+    return readGroup(sql);
+  }
+
+  /**
+   * Removes a member: themselves, or anyone if the login is the owner's. The owner can't be removed.
+   * @returns Whether the member was removed.
+   */
+  async removeMember(login: string, member: string): Promise<boolean> {
+    const sql = this.ctx.storage.sql;
+    const group = readGroup(sql);
+    if (!group || (login !== member && group.owner !== login)) return false;
+    return deleteMember(sql, member);
+  }
+}
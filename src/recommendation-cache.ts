@@ -0,0 +1,94 @@
+// Cached getBookRecommendations results, keyed by the profile and request they were generated for
+
+import type { BookPreferences } from "./preferences";
+import type { RecommendationExclusion, RecommendationRequest } from "./recommendations";
+
+// How long a cached batch is served before asking the model again
+export const RECOMMENDATION_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Everything about a batch besides the recommendations themselves, which are stored in the history
+export interface CachedRecommendationDetails {
+  excluded: RecommendationExclusion[];
+  providers: string[];
+  source: "catalog" | "model";
+  contextUsed: string[]; // What the prompt drew on, e.g. "12 books read"
+}
+
+export interface CachedRecommendations extends CachedRecommendationDetails {
+  key: string;
+  recommendationIds: number[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+type CacheRow = {
+  key: string;
+  recommendation_ids: string;
+  details: string;
+  created_at: string;
+  expires_at: string;
+};
+
+/**
+ * Hashes the parts of the profile that shape recommendations, together with the request, so any
+ * change to either gives a different key.
+ */
+export async function recommendationCacheKey(preferences: BookPreferences, request: RecommendationRequest): Promise<string> {
+  const relevant = {
+    userName: preferences.userName,
+    favoriteGenres: preferences.favoriteGenres,
+    favoriteAuthors: preferences.favoriteAuthors,
+    booksRead: preferences.booksRead,
+    dislikedBooks: preferences.dislikedBooks,
+    dislikedAuthors: preferences.dislikedAuthors,
+    wantToRead: preferences.wantToRead,
+    currentlyReading: preferences.currentlyReading,
+    didNotFinish: preferences.didNotFinish,
+  };
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify({ preferences: relevant, request })));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * @returns The cached batch for the key, or null if there isn't one or it has expired.
+ */
+export function getCachedRecommendations(sql: SqlStorage, key: string, now = new Date().toISOString()): CachedRecommendations | null {
+  const row = sql.exec<CacheRow>("SELECT * FROM recommendation_cache WHERE key = ? AND expires_at > ?", key, now).toArray()[0];
+  if (!row) return null;
+  return {
+    key: row.key,
+    recommendationIds: JSON.parse(row.recommendation_ids),
+    // Batches cached before contextUsed was recorded don't have it
+    ...({ contextUsed: [], ...JSON.parse(row.details) } as CachedRecommendationDetails),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Caches a batch under the key, replacing anything already there and dropping expired entries.
+ */
+export function cacheRecommendations(
+  sql: SqlStorage,
+  key: string,
+  recommendationIds: number[],
+  details: CachedRecommendationDetails,
+  now = new Date()
+): CachedRecommendations {
+  const createdAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + RECOMMENDATION_CACHE_TTL_MS).toISOString();
+  sql.exec("DELETE FROM recommendation_cache WHERE expires_at <= ?", createdAt);
+  sql.exec(
+    "INSERT OR REPLACE INTO recommendation_cache (key, recommendation_ids, details, created_at, expires_at) VALUES (?, ?, ?, ?, ?)",
+    key,
+    JSON.stringify(recommendationIds),
+    JSON.stringify(details),
+    createdAt,
+    expiresAt
+  );
+  return { key, recommendationIds, ...details, createdAt, expiresAt };
+}
+
+export function clearRecommendationCache(sql: SqlStorage): void {
+  sql.exec("DELETE FROM recommendation_cache");
+}
@@ -0,0 +1,293 @@
+// Where recommendations come from: Workers AI models tried in turn, falling back to a rules-based engine that needs no network
+
+import type { BookPreferences } from "./preferences";
+import {
+  RecommendationError,
+  RecommendationPrompt,
+  RecommendationRequest,
+  RecommendationStreamParser,
+  RecommendedBook,
+  parseRecommendationResponse,
+  promptMessages,
+} from "./recommendations";
+import { CATALOG_BOOKS } from "./catalog-data";
+import { CatalogBook, findCatalogBook, matchesRequest, similarityReasons } from "./catalog";
+import { isSameAuthor, isSameBook } from "./book-identity";
+import { isWithinGenre } from "./genres";
+import { HIGH_RATING, LOW_RATING } from "./stats";
+
+export const RECOMMENDATION_MODEL = "@cf/meta/llama-3.1-8b-instruct-fast";
+
+// The name of the rules-based engine in a RECOMMENDERS list
+export const RULES_RECOMMENDER = "rules";
+
+// The first answer plus this many attempts to repair it
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Everything a recommender might draw on; language models only need the prompt and count
+export interface RecommenderInput {
+  prompt: RecommendationPrompt;
+  count: number;
+  preferences: BookPreferences;
+  filters?: RecommendationRequest;
+  candidates?: CatalogBook[]; // Catalog books to choose from, most similar first
+  similarTo?: CatalogBook; // The book the picks should resemble, for findSimilarBooks
+  suggested: Array<{ title: string; author: string }>; // Already suggested or ruled out in this call
+  onBook?: (book: RecommendedBook) => void; // Called as each book is produced; Workers AI streams its reply when this is set
+  signal?: AbortSignal;
+}
+
+export interface RecommenderResult {
+  recommendations: RecommendedBook[];
+  provider: string; // Name of the recommender that produced them
+}
+
+export interface Recommender {
+  readonly name: string;
+  /**
+   * @returns Up to `count` recommendations; fewer only if the recommender has run out of books.
+   * @throws RecommendationError if the recommender couldn't produce valid recommendations, or the
+   * signal's reason if it was cancelled.
+   */
+  recommend(input: RecommenderInput): Promise<RecommenderResult>;
+}
+
+/**
+ * Reads a Workers AI event stream (`data: {"response": "..."}` lines, ending with `data: [DONE]`).
+ * @returns The full generated text.
+ * @throws RecommendationError if an event isn't valid JSON, so the next recommender can take over.
+ */
+async function readTextStream(stream: ReadableStream<Uint8Array>, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let text = "";
+  // Cancelling the reader ends a pending read straight away
+  const cancel = () => {
+    reader.cancel().catch(() => {});
+  };
+  signal?.addEventListener("abort", cancel);
+  let complete = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        complete = true;
+        break;
+      }
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+        if (!data || data === "[DONE]") continue;
+        let chunk: unknown;
+        try {
+          chunk = JSON.parse(data).response;
+        } catch {
+          throw new RecommendationError(`Workers AI sent a malformed stream event: ${data.slice(0, 100)}`);
+        }
+        if (typeof chunk === "string" && chunk) {
+          text += chunk;
+          onText(chunk);
+        }
+      }
+    }
+    signal?.throwIfAborted();
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    // Stop the model generating a reply nobody will read, e.g. after a malformed event
+    if (!complete) cancel();
+    reader.releaseLock();
+  }
+  return text;
+}
+
+/**
+ * A Workers AI text generation model, asked for JSON and told what was wrong with its reply until it
+ * matches the recommendation schema.
+ */
+export class WorkersAiRecommender implements Recommender {
+  constructor(private ai: any, readonly name: string = RECOMMENDATION_MODEL) {}
+
+  async recommend({ prompt, count, onBook, signal }: RecommenderInput): Promise<RecommenderResult> {
+    const messages: Array<{ role: string; content: string }> = promptMessages(prompt, count);
+    let lastError = "";
+    // Books already reported, so a repaired reply doesn't report them twice
+    const reported: RecommendedBook[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted();
+      const options = { messages, max_tokens: 300 + count * 200 };
+      let text: string;
+      if (onBook) {
+        // Stream the reply so each book can be reported as soon as it's complete
+        const parser = new RecommendationStreamParser();
+        text = await readTextStream(
+          await this.ai.run(this.name, { ...options, stream: true }),
+          chunk => {
+            for (const book of parser.push(chunk)) {
+              if (reported.length < count && !reported.some(other => isSameBook(other, book))) {
+                reported.push(book);
+                onBook(book);
+              }
+            }
+          },
+          signal
+        );
+      } else {
+        const response = await this.ai.run(this.name, options);
+        text = typeof response.response === "string" ? response.response : JSON.stringify(response.response ?? "");
+      }
+      const parsed = parseRecommendationResponse(text, count);
+      if ("recommendations" in parsed) return { recommendations: parsed.recommendations, provider: this.name };
+
+      lastError = parsed.error;
+      console.warn(`Invalid recommendation reply from ${this.name} (attempt ${attempt + 1}): ${lastError}`);
+      messages.push(
+        { role: "assistant", content: text },
+        { role: "user", content: `That reply was invalid: ${lastError} Reply again with only the corrected JSON object.` }
+      );
+    }
+
+    throw new RecommendationError(`${this.name} didn't return valid recommendations: ${lastError}`);
+  }
+}
+
+/**
+ * Tries each recommender in turn until one succeeds, whether the others failed with invalid replies
+ * or errors from Workers AI itself.
+ */
+export class FallbackRecommender implements Recommender {
+  readonly name: string;
+
+  constructor(private recommenders: Recommender[]) {
+    this.name = recommenders.map(recommender => recommender.name).join(" → ");
+  }
+
+  async recommend(input: RecommenderInput): Promise<RecommenderResult> {
+    let lastError: unknown;
+    for (const recommender of this.recommenders) {
+      try {
+        return await recommender.recommend(input);
+      } catch (error) {
+        // Cancelled by the caller, not failed
+        if (input.signal?.aborted) throw error;
+        console.warn(`Recommender ${recommender.name} failed, trying the next one:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError instanceof RecommendationError
+      ? lastError
+      : new RecommendationError(`Every recommender failed: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+  }
+}
+
+interface ScoredBook {
+  book: CatalogBook;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * A deterministic engine that scores catalog books by the authors and genres the user likes, or by
+ * how much they share with the book in `similarTo`. Used as the last fallback, and on its own for
+ * local development and tests without network access. The same input always gives the same picks.
+ */
+export class RulesRecommender implements Recommender {
+  readonly name = RULES_RECOMMENDER;
+
+  async recommend(input: RecommenderInput): Promise<RecommenderResult> {
+    const { preferences, suggested } = input;
+    const shelved = [...preferences.booksRead, ...preferences.dislikedBooks, ...preferences.currentlyReading, ...preferences.wantToRead, ...preferences.didNotFinish];
+    const pool = (input.candidates ?? CATALOG_BOOKS.filter(book => !input.filters || matchesRequest(book, input.filters))).filter(
+      book =>
+        !shelved.some(other => isSameBook(other, book)) &&
+        !suggested.some(other => isSameBook(other, book)) &&
+        !preferences.dislikedAuthors.some(author => isSameAuthor(author, book.author)) &&
+        !(input.similarTo && book.id === input.similarTo.id)
+    );
+
+    const scored = pool
+      .map((book, position) => {
+        const scoredBook = input.similarTo ? scoreSimilarity(book, input.similarTo) : scoreTaste(book, preferences);
+        // Candidates come most similar first, so earlier ones win ties
+        return { ...scoredBook, score: scoredBook.score - position * 0.001 };
+      })
+      .sort((a, b) => b.score - a.score || a.book.title.localeCompare(b.book.title));
+
+    const recommendations = scored.slice(0, input.count).map(({ book, score, reasons }) => ({
+      title: book.title,
+      author: book.author,
+      year: book.year,
+      genres: book.genres,
+      reason: `${reasons.length > 0 ? `${reasons.join(" ")} ` : ""}${book.description}`,
+      confidence: Math.round(Math.min(1, Math.max(0.1, 0.3 + score * 0.1)) * 100) / 100,
+    }));
+    recommendations.forEach(book => input.onBook?.(book));
+    return { recommendations, provider: this.name };
+  }
+}
+
+function scoreTaste(book: CatalogBook, preferences: BookPreferences): ScoredBook {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const loved = preferences.booksRead.filter(b => (b.rating ?? 0) >= HIGH_RATING);
+  const lovedByAuthor = loved.find(b => isSameAuthor(b.author, book.author));
+  if (preferences.favoriteAuthors.some(author => isSameAuthor(author, book.author))) {
+    score += 3;
+    reasons.push(`It's by ${book.author}, one of your favorite authors.`);
+  } else if (lovedByAuthor) {
+    score += 3;
+    reasons.push(`You loved "${lovedByAuthor.title}" by the same author.`);
+  }
+  if (preferences.booksRead.some(b => b.rating !== undefined && b.rating <= LOW_RATING && isSameAuthor(b.author, book.author))) {
+    score -= 2;
+  }
+
+  const favoriteGenre = preferences.favoriteGenres.find(favorite => book.genres.some(genre => isWithinGenre(genre, favorite)));
+  if (favoriteGenre) {
+    score += 2;
+    reasons.push(`It's ${favoriteGenre}, a genre you enjoy.`);
+  }
+
+  // Genres of loved books, from their shelf entry or their catalog entry
+  for (const lovedBook of loved) {
+    const genres = lovedBook.genre ? [lovedBook.genre] : findCatalogBook(lovedBook)?.genres ?? [];
+    const shared = genres.find(genre => book.genres.includes(genre));
+    if (shared) {
+      score += 1;
+      if (!favoriteGenre) reasons.push(`Like "${lovedBook.title}", which you loved, it's ${shared}.`);
+      break;
+    }
+  }
+
+  return { book, score, reasons };
+}
+
+function scoreSimilarity(book: CatalogBook, original: CatalogBook): ScoredBook {
+  let score = 0;
+  if (isSameAuthor(book.author, original.author)) score += 3;
+  score += 2 * book.genres.filter(genre => original.genres.includes(genre)).length;
+  if (book.genres.some(genre => original.genres.some(other => isWithinGenre(genre, other) || isWithinGenre(other, genre)))) score += 1;
+  return { book, score, reasons: [`${similarityReasons(original, book).join(". ")}.`] };
+}
+
+/**
+ * Builds the recommender chain from the RECOMMENDERS setting: a comma-separated list of Workers AI
+ * model IDs and "rules", tried in order. The rules-based engine always ends the chain, so set
+ * RECOMMENDERS to "rules" to recommend without calling Workers AI at all.
+ */
+export function createRecommender(env: { AI: any; RECOMMENDERS?: string }): Recommender {
+  const names = (env.RECOMMENDERS ?? RECOMMENDATION_MODEL)
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+  if (!names.includes(RULES_RECOMMENDER)) names.push(RULES_RECOMMENDER);
+
+  const recommenders = names
+    .slice(0, names.indexOf(RULES_RECOMMENDER) + 1)
+    .map(name => (name === RULES_RECOMMENDER ? new RulesRecommender() : new WorkersAiRecommender(env.AI, name)));
+  return recommenders.length === 1 ? recommenders[0] : new FallbackRecommender(recommenders);
+}
@@ -0,0 +1,136 @@
+// Cleaning user-supplied text before it's stored, and spotting entries that read like instructions to the model
+
+import type { BookPreferences, ShelvedBook } from "./preferences";
+
+// The longest each kind of text can be once stored; anything longer is cut off with an ellipsis
+export const MAX_TEXT_LENGTHS = {
+  name: 100,
+  title: 300,
+  author: 200,
+  genre: 100,
+  series: 200,
+  note: 2000, // Reviews, reasons and other free text
+  quote: 5000,
+} as const;
+
+// Control characters and invisible formatting characters (zero-width spaces, bidirectional overrides)
+// that can hide text from someone reading their own profile
+const INVISIBLE_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/g;
+
+/**
+ * Strips invisible characters, collapses whitespace and enforces a length limit.
+ * @param multiline - Keep line breaks (for reviews and quotes); otherwise the text becomes a single line.
+ */
+export function sanitizeText(text: string, maxLength: number, multiline = false): string {
+  let clean = text.normalize("NFC").replace(INVISIBLE_CHARACTERS, "");
+  clean = multiline
+    ? clean.replace(/\r\n?/g, "\n").replace(/[^\S\n]+/g, " ").replace(/\n{3,}/g, "\n\n")
+    : clean.replace(/\s+/g, " ");
+  clean = clean.trim();
+  return clean.length > maxLength ? `${clean.slice(0, maxLength - 1).trimEnd()}…` : clean;
+}
+
+function sanitizeBook<T extends ShelvedBook>(book: T): T {
+  const clean: T = { ...book, title: sanitizeText(book.title, MAX_TEXT_LENGTHS.title), author: sanitizeText(book.author, MAX_TEXT_LENGTHS.author) };
+  if (book.genre !== undefined) clean.genre = sanitizeText(book.genre, MAX_TEXT_LENGTHS.genre);
+  if (book.series !== undefined) clean.series = sanitizeText(book.series, MAX_TEXT_LENGTHS.series);
+  return clean;
+}
+
+function sanitizeNote(note: string | undefined): string | undefined {
+  return note === undefined ? undefined : sanitizeText(note, MAX_TEXT_LENGTHS.note, true);
+}
+
+/**
+ * Cleans every piece of text in the preferences. Applied whenever preferences are saved, whichever
+ * tool or import they came from.
+ */
+export function sanitizePreferences(preferences: BookPreferences): BookPreferences {
+  const author = (name: string) => sanitizeText(name, MAX_TEXT_LENGTHS.author);
+  const genre = (name: string) => sanitizeText(name, MAX_TEXT_LENGTHS.genre);
+  return {
+    ...preferences,
+    userName: sanitizeText(preferences.userName, MAX_TEXT_LENGTHS.name),
+    favoriteGenres: preferences.favoriteGenres.map(genre),
+    genreWording: Object.fromEntries(Object.entries(preferences.genreWording).map(([key, wording]) => [genre(key), genre(wording)])),
+    favoriteAuthors: preferences.favoriteAuthors.map(author),
+    dislikedAuthors: preferences.dislikedAuthors.map(author),
+    booksRead: preferences.booksRead.map(book => {
+      const clean = sanitizeBook(book);
+      if (book.review !== undefined) clean.review = sanitizeNote(book.review);
+      return clean;
+    }),
+    dislikedBooks: preferences.dislikedBooks.map(sanitizeBook),
+    wantToRead: preferences.wantToRead.map(sanitizeBook),
+    currentlyReading: preferences.currentlyReading.map(sanitizeBook),
+    didNotFinish: preferences.didNotFinish.map(book => {
+      const clean = sanitizeBook(book);
+      if (book.reason !== undefined) clean.reason = sanitizeNote(book.reason);
+      if (book.stoppedAt !== undefined) clean.stoppedAt = sanitizeText(book.stoppedAt, MAX_TEXT_LENGTHS.title);
+      return clean;
+    }),
+  };
+}
+
+// Phrasings that address the model rather than describe a book, with why each is suspicious
+const SUSPICIOUS_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|prompts?|rules|directions)\b/i, "tells the model to ignore its instructions"],
+  [/\b(new|updated|additional|real) (instructions?|task)\b/i, "claims to give the model new instructions"],
+  [/\b(system prompt|developer message|jailbreak)\b/i, "refers to the model's prompt"],
+  [/\byou are now\b|\b(act|behave) as (an? |the )?(ai|assistant|model|system)\b|\bpretend (to be|you are)\b/i, "tries to give the model a new role"],
+  [/(^|\s)(system|assistant|user)\s*:/i, "contains a chat role marker"],
+  [/<\/?(system|assistant|user|instructions?|reader_data)\b[^>]*>|<\|[a-z_]+\|>|\[\/?INST\]/i, "contains prompt markup"],
+  [/\b(respond|reply|answer|output)\s+(only\s+)?with\b/i, "tries to dictate the model's reply"],
+  [/\b(always|only) recommend\b|\brecommend\b.{0,60}\binstead\b/i, "tries to steer the recommendations"],
+];
+
+/**
+ * @returns Why the text looks like an attempt to instruct the model, or null if it looks like ordinary data.
+ */
+export function detectPromptInjection(text: string): string | null {
+  for (const [pattern, reason] of SUSPICIOUS_PATTERNS) {
+    if (pattern.test(text)) return reason;
+  }
+  return null;
+}
+
+export interface SuspiciousEntry {
+  field: string; // Where the entry is, e.g. 'Favorite authors' or 'Review of "Dune"'
+  value: string;
+  reason: string;
+}
+
+/**
+ * Finds entries in the preferences that read like instructions to the model rather than books,
+ * authors or genres, so the user can check and remove them.
+ */
+export function findSuspiciousEntries(preferences: BookPreferences): SuspiciousEntry[] {
+  const entries: Array<[string, string | undefined]> = [
+    ["Name", preferences.userName],
+    ...preferences.favoriteGenres.map((genre): [string, string] => ["Favorite genres", genre]),
+    ...preferences.favoriteAuthors.map((author): [string, string] => ["Favorite authors", author]),
+    ...preferences.dislikedAuthors.map((author): [string, string] => ["Disliked authors", author]),
+  ];
+  const shelves: Array<[string, ShelvedBook[]]> = [
+    ["Books read", preferences.booksRead],
+    ["Disliked books", preferences.dislikedBooks],
+    ["Want to read", preferences.wantToRead],
+    ["Currently reading", preferences.currentlyReading],
+    ["Did not finish", preferences.didNotFinish],
+  ];
+  for (const [shelf, books] of shelves) {
+    for (const book of books) {
+      entries.push([`${shelf} (title)`, book.title], [`${shelf} (author of "${book.title}")`, book.author]);
+      entries.push([`${shelf} (genre of "${book.title}")`, book.genre], [`${shelf} (series of "${book.title}")`, book.series]);
+    }
+  }
+  for (const book of preferences.booksRead) entries.push([`Review of "${book.title}"`, book.review]);
+  for (const book of preferences.didNotFinish) entries.push([`Reason for not finishing "${book.title}"`, book.reason]);
+
+  const suspicious: SuspiciousEntry[] = [];
+  for (const [field, value] of entries) {
+    const reason = value ? detectPromptInjection(value) : null;
+    if (value && reason) suspicious.push({ field, value, reason });
+  }
+  return suspicious;
+}
@@ -0,0 +1,126 @@
+// Series metadata for books: parsing series from titles and working out where a reader is in each series
+
+import type { BookPreferences, ShelvedBook } from "./preferences";
+import type { CatalogBook } from "./catalog";
+import { CATALOG_BOOKS } from "./catalog-data";
+
+export interface SeriesInfo {
+  series: string;
+  position: number;
+}
+
+// Where the user is in one series, across all their shelves
+export interface SeriesProgress {
+  series: string;
+  author: string;
+  read: number[];
+  reading: number[];
+  abandoned: number[];
+  // Unread volumes before the furthest one read, not counting ones they gave up on
+  gaps: number[];
+  // Whether they gave up on a volume after the furthest one they read, i.e. dropped the series
+  dropped: boolean;
+  // The first volume after the furthest one read or in progress that's known to exist, from their
+  // want-to-read shelf or the catalog. Null when none is, or when they dropped the series
+  nextPosition: number | null;
+  // The next volume when it's on their want-to-read shelf, or else when it's in the catalog
+  nextBook: ShelvedBook | null;
+  nextCatalogBook: CatalogBook | null;
+  nextShelf: string | null;
+  lastActivity: string;
+}
+
+// "(Discworld #12)", "(The Expanse, #3)", "[Wheel of Time Book 2]", "(Mistborn, Vol. 1.5)"
+const SERIES_IN_TITLE = /\s*[([]\s*([^)\]#]*?)[\s,]*(?:#\s*|book\s+|vol(?:ume)?\.?\s*)(\d+(?:\.\d+)?)\s*[)\]]\s*$/i;
+
+/**
+ * Reads series details out of a title written the way Goodreads and most catalogs do,
+ * e.g. "Guards! Guards! (Discworld #8)".
+ * @returns The series and position, or null if the title doesn't name a series.
+ */
+export function parseSeriesFromTitle(title: string): SeriesInfo | null {
+  const match = title.match(SERIES_IN_TITLE);
+  if (!match || !match[1].trim()) return null;
+  return { series: match[1].trim(), position: Number(match[2]) };
+}
+
+/**
+ * Normalizes a series name for comparison, so "The Expanse" and "Expanse series" match.
+ */
+export function normalizeSeriesName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^the\s+/, "")
+    .replace(/\s+(series|saga|trilogy|sequence|cycle)$/, "");
+}
+
+/**
+ * Lists the series the user has started (read or is reading at least one volume of),
+ * most recently active first. Filter on nextPosition for the series worth suggesting a next volume of.
+ */
+export function computeSeriesProgress(preferences: BookPreferences): SeriesProgress[] {
+  const shelves: Array<[string, ShelvedBook[]]> = [
+    ["read", preferences.booksRead],
+    ["currently-reading", preferences.currentlyReading],
+    ["want-to-read", preferences.wantToRead],
+    ["did-not-finish", preferences.didNotFinish],
+  ];
+
+  const groups = new Map<string, Array<{ shelf: string; book: ShelvedBook & { seriesPosition: number } }>>();
+  for (const [shelf, books] of shelves) {
+    for (const book of books) {
+      if (!book.series || book.seriesPosition === undefined) continue;
+      const key = normalizeSeriesName(book.series);
+      const group = groups.get(key) ?? [];
+      group.push({ shelf, book: book as ShelvedBook & { seriesPosition: number } });
+      groups.set(key, group);
+    }
+  }
+
+  const progress: SeriesProgress[] = [];
+  for (const [key, entries] of groups) {
+    const read = entries.filter(entry => entry.shelf === "read").map(entry => entry.book.seriesPosition);
+    const reading = entries.filter(entry => entry.shelf === "currently-reading").map(entry => entry.book.seriesPosition);
+    if (read.length === 0 && reading.length === 0) continue;
+
+    const abandoned = entries.filter(entry => entry.shelf === "did-not-finish").map(entry => entry.book.seriesPosition);
+    const furthest = Math.max(...read, ...reading);
+    const gaps: number[] = [];
+    for (let position = 1; position < furthest; position++) {
+      if (!read.includes(position) && !reading.includes(position) && !abandoned.includes(position)) gaps.push(position);
+    }
+    const dropped = abandoned.some(position => position > furthest);
+
+    // Only volumes we know exist count as next, so a finished series doesn't get a made-up sequel
+    const shelved = entries.filter(entry => entry.shelf === "want-to-read" && entry.book.seriesPosition > furthest);
+    const cataloged = CATALOG_BOOKS.filter(
+      book => book.series && normalizeSeriesName(book.series) === key && book.seriesPosition !== undefined && book.seriesPosition > furthest
+    );
+    const known = [...shelved.map(entry => entry.book.seriesPosition), ...cataloged.map(book => book.seriesPosition as number)];
+    const nextPosition = dropped || known.length === 0 ? null : Math.min(...known);
+    const next = shelved.find(entry => entry.book.seriesPosition === nextPosition);
+    const nextCatalogBook = next ? null : cataloged.find(book => book.seriesPosition === nextPosition) ?? null;
+
+    const first = entries.find(entry => entry.shelf === "read" || entry.shelf === "currently-reading") ?? entries[0];
+    progress.push({
+      series: first.book.series as string,
+      author: first.book.author,
+      read: [...read].sort((a, b) => a - b),
+      reading: [...reading].sort((a, b) => a - b),
+      abandoned: [...abandoned].sort((a, b) => a - b),
+      gaps,
+      dropped,
+      nextPosition,
+      nextBook: next?.book ?? null,
+      nextCatalogBook,
+      nextShelf: next?.shelf ?? null,
+      lastActivity: entries.map(entry => (entry.book as { dateFinished?: string }).dateFinished || entry.book.dateAdded).sort().pop() as string,
+    });
+  }
+
+  return progress.sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+}
+
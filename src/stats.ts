@@ -0,0 +1,140 @@
+// Reading statistics computed from a user's preferences, for chat summaries and dashboards
+
+import type { BookPreferences, ReadBook } from "./preferences";
+import { genreAncestors } from "./genres";
+
+// Ratings at or above this are treated as favorites, at or below LOW as soft dislikes
+export const HIGH_RATING = 4;
+export const LOW_RATING = 2;
+
+export interface CountEntry {
+  name: string;
+  count: number;
+}
+
+export interface ReadingStreak {
+  months: number;
+  from: string; // YYYY-MM
+  to: string; // YYYY-MM
+}
+
+export interface ReadingStats {
+  range: { from: string | null; to: string | null };
+  totalBooks: number;
+  totalPages: number;
+  booksPerYear: Record<string, number>;
+  booksPerMonth: Record<string, number>;
+  topAuthors: CountEntry[];
+  // Keyed by the genre logged on each book; books without one are counted as "unknown"
+  genres: CountEntry[];
+  // The same books rolled up to top-level genres (fiction, nonfiction, ...)
+  topLevelGenres: CountEntry[];
+  averageRating: number | null;
+  ratedBooks: number;
+  ratingDistribution: Record<string, number>;
+  // Longest run of consecutive months with at least one finished book
+  longestStreak: ReadingStreak | null;
+  currentStreak: ReadingStreak | null;
+  liked: number;
+  disliked: number;
+  // liked / (liked + disliked), or null when there's nothing to compare
+  likedRatio: number | null;
+}
+
+function finishedDate(book: ReadBook): string {
+  return book.dateFinished || book.dateAdded;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): CountEntry[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const name = key(item);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function nextMonth(month: string): string {
+  const [year, index] = month.split("-").map(Number);
+  return index === 12 ? `${year + 1}-01` : `${year}-${String(index + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Finds runs of consecutive months with at least one finished book.
+ * @param months - Months (YYYY-MM) in which a book was finished.
+ * @param currentMonth - The month to measure the current streak up to.
+ */
+function findStreaks(months: string[], currentMonth: string): { longest: ReadingStreak | null; current: ReadingStreak | null } {
+  const sorted = [...new Set(months)].sort();
+  let longest: ReadingStreak | null = null;
+  let run: ReadingStreak | null = null;
+
+  for (const month of sorted) {
+    if (run && nextMonth(run.to) === month) {
+      run = { months: run.months + 1, from: run.from, to: month };
+    } else {
+      run = { months: 1, from: month, to: month };
+    }
+    if (!longest || run.months > longest.months) longest = run;
+  }
+
+  // A streak is still going if it reached this month or last month
+  const lastMonth = sorted.length > 0 ? sorted[sorted.length - 1] : null;
+  const ongoing = run && lastMonth && (lastMonth === currentMonth || nextMonth(lastMonth) === currentMonth);
+  return { longest, current: ongoing ? run : null };
+}
+
+/**
+ * Computes reading statistics over the books finished within a date range.
+ * @param preferences - The user's preferences.
+ * @param from - Earliest finished date to include (ISO), or null for no lower bound.
+ * @param to - Latest finished date to include (ISO), or null for no upper bound.
+ * @param now - The current time, used for the current streak.
+ */
+export function computeReadingStats(preferences: BookPreferences, from: string | null, to: string | null, now = new Date()): ReadingStats {
+  const inRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+  const books = preferences.booksRead.filter(book => inRange(finishedDate(book)));
+  const dislikedBooks = preferences.dislikedBooks.filter(book => inRange(book.dateAdded));
+
+  const booksPerYear: Record<string, number> = {};
+  const booksPerMonth: Record<string, number> = {};
+  for (const book of books) {
+    const date = finishedDate(book);
+    booksPerYear[date.slice(0, 4)] = (booksPerYear[date.slice(0, 4)] ?? 0) + 1;
+    booksPerMonth[date.slice(0, 7)] = (booksPerMonth[date.slice(0, 7)] ?? 0) + 1;
+  }
+
+  const rated = books.filter(book => book.rating !== undefined);
+  const ratingDistribution: Record<string, number> = { "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 };
+  for (const book of rated) ratingDistribution[String(book.rating)]++;
+  const averageRating = rated.length > 0 ? rated.reduce((total, book) => total + (book.rating ?? 0), 0) / rated.length : null;
+
+  const liked = rated.filter(book => (book.rating ?? 0) >= HIGH_RATING).length;
+  const disliked = rated.filter(book => (book.rating ?? 0) <= LOW_RATING).length + dislikedBooks.length;
+
+  const streaks = findStreaks(
+    books.map(book => finishedDate(book).slice(0, 7)),
+    now.toISOString().slice(0, 7)
+  );
+
+  return {
+    range: { from, to },
+    totalBooks: books.length,
+    totalPages: books.reduce((total, book) => total + (book.pages ?? 0), 0),
+    booksPerYear,
+    booksPerMonth,
+    topAuthors: countBy(books, book => book.author).slice(0, 10),
+    genres: countBy(books, book => book.genre || "unknown"),
+    topLevelGenres: countBy(books, book => (book.genre ? genreAncestors(book.genre).pop() ?? book.genre : "unknown")),
+    averageRating,
+    ratedBooks: rated.length,
+    ratingDistribution,
+    longestStreak: streaks.longest,
+    currentStreak: streaks.current,
+    liked,
+    disliked,
+    likedRatio: liked + disliked > 0 ? liked / (liked + disliked) : null,
+  };
+}
@@ -0,0 +1,341 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "./index";
+import type { BookPreferences } from "./preferences";
+import { readPreferences, writePreferences } from "./preferences-db";
+import { runMigrations } from "./migrations";
+import {
+  ChangeContext,
+  HistoryEntry,
+  applyDiff,
+  diffPreferences,
+  findUndoable,
+  listHistory,
+  pruneHistory,
+  recordChange,
+  recordEvent,
+  setEventStatus,
+} from "./history";
+import {
+  GOAL_SNAPSHOT_INTERVAL_MS,
+  GoalMetric,
+  GoalPeriod,
+  GoalProgress,
+  ReadingGoal,
+  Reminder,
+  computeGoalProgress,
+  deleteGoal,
+  listGoals,
+  markRemindersShown,
+  pendingReminders,
+  queueReminder,
+  recordSnapshot,
+  reminderFor,
+  saveGoal,
+} from "./goals";
+import { ImportFormat, ImportReport, ImportRow, planImport } from "./library-import";
+import { ProfileExport, QUOTES_EXPORT_VERSION } from "./profile-export";
+import { NewQuote, Quote, QuoteSearch, insertQuote, listQuotes, randomQuote, searchQuotes } from "./quotes";
+import {
+  Recommendation,
+  RecommendationStatus,
+  RecommendedBook,
+  getRecommendation,
+  latestRecommendations,
+  listRecommendations,
+  saveRecommendations,
+  setRecommendationFeedback,
+  suppressedRecommendations,
+} from "./recommendations";
+import {
+  CachedRecommendationDetails,
+  CachedRecommendations,
+  cacheRecommendations,
+  clearRecommendationCache,
+  getCachedRecommendations,
+} from "./recommendation-cache";
+import { MAX_TEXT_LENGTHS, sanitizePreferences, sanitizeText } from "./sanitize";
+import { GroupMembership, deleteGroupMembership, listGroupMemberships, saveGroupMembership } from "./groups";
+import { isSameBook } from "./book-identity";
+
+function sanitizeQuote(quote: NewQuote): NewQuote {
+  return {
+    ...quote,
+    text: sanitizeText(quote.text, MAX_TEXT_LENGTHS.quote, true),
+    title: sanitizeText(quote.title, MAX_TEXT_LENGTHS.title),
+    author: sanitizeText(quote.author, MAX_TEXT_LENGTHS.author),
+    note: quote.note === null ? null : sanitizeText(quote.note, MAX_TEXT_LENGTHS.note, true),
+  };
+}
+
+// Result of an undo or redo: the change it acted on and the preferences afterwards
+export interface HistoryStepResult {
+  tool: string | null;
+  fields: string[];
+  preferences: BookPreferences;
+}
+
+// Durable Object class for storing user book preferences in SQLite tables
+export class UserBookPreferences extends DurableObject<Env> {
+  private preferences: BookPreferences | null = null;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    // Upgrade the schema (and any legacy blob data) before serving the first request
+    state.blockConcurrencyWhile(async () => {
+      await runMigrations(this.ctx.storage);
+    });
+  }
+
+  async getPreferences(): Promise<BookPreferences> {
+    if (!this.preferences) {
+      this.preferences = readPreferences(this.ctx.storage.sql);
+    }
+    return this.preferences;
+  }
+
+  async updatePreferences(preferences: BookPreferences, context: ChangeContext): Promise<void> {
+    const current = await this.getPreferences();
+    this.preferences = this.ctx.storage.transactionSync(() => this.writeChange(current, preferences, context));
+  }
+
+  // Saves new preferences and records the change for undo; must run inside a transaction
+  private writeChange(current: BookPreferences, preferences: BookPreferences, context: ChangeContext): BookPreferences {
+    // Text is cleaned and length-limited here so it's covered whichever tool or import it came from
+    const newPreferences = sanitizePreferences(preferences);
+    const diff = diffPreferences(current, newPreferences);
+    const sql = this.ctx.storage.sql;
+
+    const summary = writePreferences(sql, newPreferences);
+    if (diff) {
+      recordChange(sql, context, diff, summary);
+      pruneHistory(sql);
+      clearRecommendationCache(sql);
+    }
+    return newPreferences;
+  }
+
+  /**
+   * Merges rows from a Goodreads or StoryGraph export into the library as a single undoable change.
+   * @param dryRun - Only report what would happen, without saving anything.
+   */
+  async importLibrary(format: ImportFormat, rows: ImportRow[], dryRun: boolean, context: ChangeContext): Promise<ImportReport> {
+    const { preferences, report } = planImport(await this.getPreferences(), format, rows);
+    if (!dryRun && report.imported.length > 0) {
+      await this.updatePreferences(preferences, context);
+    }
+    return report;
+  }
+
+  /**
+   * Replaces the whole library with a profile export, all in one transaction. The preferences change
+   * can be undone like any other, but goals are replaced outright and undo doesn't bring the old ones
+   * back. Quotes in the export are added to the ones already stored, which are never deleted, and
+   * exports from before quotes existed leave them alone.
+   */
+  async restoreProfile(profile: ProfileExport, context: ChangeContext): Promise<void> {
+    const sql = this.ctx.storage.sql;
+    const current = await this.getPreferences();
+    this.preferences = this.ctx.storage.transactionSync(() => {
+      const restored = this.writeChange(current, { ...profile.preferences, userName: current.userName }, context);
+      for (const goal of listGoals(sql)) deleteGoal(sql, goal.period, goal.metric);
+      for (const goal of profile.goals) saveGoal(sql, goal);
+      if (profile.version >= QUOTES_EXPORT_VERSION) {
+        for (const quote of profile.quotes) insertQuote(sql, sanitizeQuote(quote), quote.addedAt);
+      }
+      clearRecommendationCache(sql);
+      return restored;
+    });
+    if (profile.goals.length > 0 && (await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + GOAL_SNAPSHOT_INTERVAL_MS);
+    }
+  }
+
+  // Revert the most recent change that hasn't been undone yet
+  async undo(context: ChangeContext): Promise<HistoryStepResult | null> {
+    return this.step("applied", context);
+  }
+
+  // Re-apply the most recently undone change, as long as nothing new has changed since
+  async redo(context: ChangeContext): Promise<HistoryStepResult | null> {
+    return this.step("undone", context);
+  }
+
+  async getHistory(limit = 20): Promise<HistoryEntry[]> {
+    return listHistory(this.ctx.storage.sql, limit);
+  }
+
+  private async step(from: "applied" | "undone", context: ChangeContext): Promise<HistoryStepResult | null> {
+    const sql = this.ctx.storage.sql;
+    const event = findUndoable(sql, from);
+    if (!event) return null;
+
+    const current = await this.getPreferences();
+    const updated = applyDiff(current, event.diff, from === "applied" ? "before" : "after");
+
+    this.ctx.storage.transactionSync(() => {
+      writePreferences(sql, updated);
+      setEventStatus(sql, event.id, from === "applied" ? "undone" : "applied");
+      recordEvent(sql, from === "applied" ? "undo" : "redo", context, { eventId: event.id });
+      clearRecommendationCache(sql);
+    });
+    this.preferences = updated;
+
+    return { tool: event.tool, fields: Object.keys(event.diff), preferences: updated };
+  }
+
+  /**
+   * Sets a books or pages target for each year or month. A target of 0 removes the goal.
+   * @returns Whether a goal was set or removed.
+   */
+  async setReadingGoal(period: GoalPeriod, metric: GoalMetric, target: number): Promise<boolean> {
+    const sql = this.ctx.storage.sql;
+    if (target <= 0) return deleteGoal(sql, period, metric);
+
+    saveGoal(sql, { period, metric, target, createdAt: new Date().toISOString() });
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + GOAL_SNAPSHOT_INTERVAL_MS);
+    }
+    return true;
+  }
+
+  /**
+   * Saves quotes, linking each to the matching book in booksRead and skipping passages already stored.
+   * @returns How many were added, and how many were duplicates.
+   */
+  async addQuotes(quotes: NewQuote[]): Promise<{ added: number; duplicates: number; linked: number }> {
+    const sql = this.ctx.storage.sql;
+    const { booksRead } = await this.getPreferences();
+    let added = 0;
+    let linked = 0;
+
+    this.ctx.storage.transactionSync(() => {
+      for (const quote of quotes.map(sanitizeQuote)) {
+        const book = quote.workId ? null : booksRead.find(candidate => isSameBook(candidate, { title: quote.title, author: quote.author }));
+        const workId = quote.workId ?? book?.workId ?? null;
+        if (insertQuote(sql, { ...quote, workId })) {
+          added++;
+          if (workId) linked++;
+        }
+      }
+      // Favorite passages go into the recommendation prompt
+      if (added > 0) clearRecommendationCache(sql);
+    });
+    return { added, duplicates: quotes.length - added, linked };
+  }
+
+  async searchQuotes(search: QuoteSearch): Promise<Quote[]> {
+    return searchQuotes(this.ctx.storage.sql, search);
+  }
+
+  async randomQuote(search: QuoteSearch): Promise<Quote | null> {
+    return randomQuote(this.ctx.storage.sql, search);
+  }
+
+  async setQuoteFavorite(id: number, favorite: boolean): Promise<Quote | null> {
+    const sql = this.ctx.storage.sql;
+    // Favorite passages feed into recommendations, so only a real change makes cached ones stale
+    if (sql.exec("UPDATE quotes SET favorite = ? WHERE id = ?", favorite ? 1 : 0, id).rowsWritten > 0) {
+      clearRecommendationCache(sql);
+    }
+    return listQuotes(sql).find(quote => quote.id === id) ?? null;
+  }
+
+  async getQuotes(): Promise<Quote[]> {
+    return listQuotes(this.ctx.storage.sql);
+  }
+
+  // Store a batch of recommendations, returning them with the IDs used to give feedback
+  async saveRecommendations(books: RecommendedBook[]): Promise<Recommendation[]> {
+    const sql = this.ctx.storage.sql;
+    return this.ctx.storage.transactionSync(() => saveRecommendations(sql, books));
+  }
+
+  /**
+   * @returns The cached batch for the key along with its recommendations, or null if it's missing or expired.
+   */
+  async getCachedRecommendations(key: string): Promise<{ cache: CachedRecommendations; recommendations: Recommendation[] } | null> {
+    const sql = this.ctx.storage.sql;
+    const cache = getCachedRecommendations(sql, key);
+    if (!cache) return null;
+    const recommendations = cache.recommendationIds.map(id => getRecommendation(sql, id));
+    if (recommendations.some(recommendation => recommendation === null)) return null;
+    return { cache, recommendations: recommendations as Recommendation[] };
+  }
+
+  async cacheRecommendations(key: string, recommendationIds: number[], details: CachedRecommendationDetails): Promise<CachedRecommendations> {
+    return cacheRecommendations(this.ctx.storage.sql, key, recommendationIds, details);
+  }
+
+  async getLatestRecommendations(): Promise<Recommendation[]> {
+    return latestRecommendations(this.ctx.storage.sql);
+  }
+
+  async getRecommendationHistory(limit = 20, status?: RecommendationStatus): Promise<Recommendation[]> {
+    return listRecommendations(this.ctx.storage.sql, limit, status);
+  }
+
+  async getRecommendation(id: number): Promise<Recommendation | null> {
+    return getRecommendation(this.ctx.storage.sql, id);
+  }
+
+  async getSuppressedRecommendations(): Promise<Recommendation[]> {
+    return suppressedRecommendations(this.ctx.storage.sql);
+  }
+
+  async setRecommendationFeedback(
+    id: number,
+    status: RecommendationStatus,
+    reason: string | null,
+    snoozedUntil: string | null
+  ): Promise<Recommendation | null> {
+    const sql = this.ctx.storage.sql;
+    // Feedback changes what's suggested next
+    clearRecommendationCache(sql);
+    return setRecommendationFeedback(sql, id, status, reason === null ? null : sanitizeText(reason, MAX_TEXT_LENGTHS.note), snoozedUntil);
+  }
+
+  async getGroupMemberships(): Promise<GroupMembership[]> {
+    return listGroupMemberships(this.ctx.storage.sql);
+  }
+
+  async addGroupMembership(membership: GroupMembership): Promise<void> {
+    saveGroupMembership(this.ctx.storage.sql, membership);
+  }
+
+  async removeGroupMembership(groupId: string): Promise<boolean> {
+    return deleteGroupMembership(this.ctx.storage.sql, groupId);
+  }
+
+  async getGoals(): Promise<ReadingGoal[]> {
+    return listGoals(this.ctx.storage.sql);
+  }
+
+  async getGoalProgress(): Promise<GoalProgress[]> {
+    const preferences = await this.getPreferences();
+    return listGoals(this.ctx.storage.sql).map(goal => computeGoalProgress(goal, preferences.booksRead));
+  }
+
+  // Hand over reminders queued by the alarm, so each one is only shown once
+  async takeReminders(): Promise<Reminder[]> {
+    const sql = this.ctx.storage.sql;
+    const reminders = pendingReminders(sql);
+    markRemindersShown(sql, reminders.map(reminder => reminder.id));
+    return reminders;
+  }
+
+  // Periodically snapshot goal progress and queue a nudge for the next session when the user falls behind
+  async alarm(): Promise<void> {
+    const sql = this.ctx.storage.sql;
+    const progress = await this.getGoalProgress();
+    if (progress.length === 0) return;
+
+    this.ctx.storage.transactionSync(() => {
+      for (const goal of progress) {
+        recordSnapshot(sql, goal);
+        const reminder = reminderFor(goal);
+        if (reminder) queueReminder(sql, reminder);
+      }
+    });
+    await this.ctx.storage.setAlarm(Date.now() + GOAL_SNAPSHOT_INTERVAL_MS);
+  }
+}
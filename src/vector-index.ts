@@ -0,0 +1,96 @@
+// Vector similarity search, backed by Cloudflare Vectorize in production and an in-memory index locally
+
+export interface IndexedVector {
+  id: string;
+  values: number[];
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+// The operations the catalog needs, so it can run against either backend
+export interface VectorIndex {
+  upsert(vectors: IndexedVector[]): Promise<void>;
+  /**
+   * @returns The closest vectors by cosine similarity, best first.
+   */
+  query(values: number[], topK: number): Promise<VectorMatch[]>;
+  // The version of the data last fully upserted, as recorded with setVersion, or null if there's none
+  getVersion(): Promise<string | null>;
+  setVersion(version: string): Promise<void>;
+}
+
+// Vectorize caps how many vectors one upsert call can take
+const VECTORIZE_BATCH_SIZE = 100;
+
+/**
+ * A Vectorize index. Create it with cosine distance and the embedding model's dimensions, e.g.
+ * `wrangler vectorize create bestreads-catalog --dimensions=768 --metric=cosine`.
+ *
+ * The version is kept in KV rather than looked up in Vectorize, which can take a while to show
+ * vectors that were just upserted.
+ */
+export class VectorizeVectorIndex implements VectorIndex {
+  constructor(private index: Vectorize, private kv: KVNamespace, private versionKey: string) {}
+
+  async upsert(vectors: IndexedVector[]): Promise<void> {
+    for (let i = 0; i < vectors.length; i += VECTORIZE_BATCH_SIZE) {
+      await this.index.upsert(vectors.slice(i, i + VECTORIZE_BATCH_SIZE));
+    }
+  }
+
+  async query(values: number[], topK: number): Promise<VectorMatch[]> {
+    const { matches } = await this.index.query(values, { topK });
+    return matches.map(match => ({ id: match.id, score: match.score }));
+  }
+
+  async getVersion(): Promise<string | null> {
+    return this.kv.get(this.versionKey);
+  }
+
+  async setVersion(version: string): Promise<void> {
+    await this.kv.put(this.versionKey, version);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * A brute-force index held in memory, for local development and tests without a Vectorize binding.
+ * Fine for a catalog of a few thousand books.
+ */
+export class InMemoryVectorIndex implements VectorIndex {
+  private vectors = new Map<string, number[]>();
+  private version: string | null = null;
+
+  async upsert(vectors: IndexedVector[]): Promise<void> {
+    for (const vector of vectors) this.vectors.set(vector.id, vector.values);
+  }
+
+  async query(values: number[], topK: number): Promise<VectorMatch[]> {
+    return [...this.vectors.entries()]
+      .map(([id, vector]) => ({ id, score: cosineSimilarity(values, vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async getVersion(): Promise<string | null> {
+    return this.version;
+  }
+
+  async setVersion(version: string): Promise<void> {
+    this.version = version;
+  }
+}